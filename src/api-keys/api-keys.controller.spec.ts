@@ -0,0 +1,31 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysController', () => {
+  let controller: ApiKeysController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ApiKeysController],
+      providers: [
+        {
+          provide: ApiKeysService,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn(),
+            issue: jest.fn(),
+            rotate: jest.fn(),
+            revoke: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ApiKeysController>(ApiKeysController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { API_KEYS_ADMIN_SCOPE } from './constants/scopes';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+@ApiTags('api-keys')
+@RequireScopes(API_KEYS_ADMIN_SCOPE)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Post()
+  issue(@Body() createApiKeyDto: CreateApiKeyDto) {
+    return this.apiKeysService.issue(createApiKeyDto);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.OK)
+  rotate(@Param('id') id: string) {
+    return this.apiKeysService.rotate(id);
+  }
+
+  @Delete(':id')
+  revoke(@Param('id') id: string) {
+    return this.apiKeysService.revoke(id);
+  }
+}
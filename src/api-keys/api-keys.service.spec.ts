@@ -0,0 +1,182 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import {
+  createMockQueryBuilder,
+  createMockRepositoryProvider,
+  MockQueryBuilder,
+  MockRepository,
+} from '../common/test/mock-repository';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let apiKeyRepository: MockRepository;
+  let queryBuilder: MockQueryBuilder;
+
+  const hash = (secret: string) =>
+    createHash('sha256').update(secret).digest('hex');
+  const storedKey = (overrides: Partial<ApiKey> = {}) => ({
+    id: 1,
+    name: 'ci',
+    owner: 'ops',
+    prefix: 'abc',
+    hash: hash('secret'),
+    scopes: ['coffees:write'],
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ApiKeysService, createMockRepositoryProvider(ApiKey)],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    apiKeyRepository = module.get<MockRepository>(getRepositoryToken(ApiKey));
+    queryBuilder = createMockQueryBuilder();
+    apiKeyRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    apiKeyRepository.update.mockResolvedValue({ affected: 1 });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('issue', () => {
+    it('should store only the hash and return the plaintext once', async () => {
+      apiKeyRepository.create.mockImplementation((apiKey) => apiKey);
+      apiKeyRepository.save.mockImplementation(async (apiKey) => ({
+        id: 1,
+        ...apiKey,
+      }));
+
+      const issued = await service.issue({
+        name: 'ci',
+        owner: 'ops',
+        scopes: ['coffees:write'],
+      });
+
+      const [prefix, secret] = issued.key.split('.');
+      expect(issued.prefix).toBe(prefix);
+      expect(issued).not.toHaveProperty('hash');
+      expect(apiKeyRepository.save).toBeCalledWith(
+        expect.objectContaining({ prefix, hash: hash(secret) }),
+      );
+    });
+
+    describe('when the expiry is in the past', () => {
+      it('should throw', async () => {
+        await expect(
+          service.issue({
+            name: 'ci',
+            owner: 'ops',
+            scopes: [],
+            expiresAt: new Date(Date.now() - 1000),
+          }),
+        ).rejects.toThrow(
+          new HttpException(
+            'expiresAt must be in the future',
+            HttpStatus.BAD_REQUEST,
+          ),
+        );
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the prefix and hash', async () => {
+      apiKeyRepository.findOne.mockResolvedValue(storedKey());
+
+      const rotated = await service.rotate('1');
+
+      const [prefix, secret] = rotated.key.split('.');
+      expect(prefix).not.toBe('abc');
+      expect(apiKeyRepository.update).toBeCalledWith(1, {
+        prefix,
+        hash: hash(secret),
+      });
+    });
+
+    describe('when the key is revoked', () => {
+      it('should throw', async () => {
+        apiKeyRepository.findOne.mockResolvedValue(
+          storedKey({ revokedAt: new Date() }),
+        );
+        await expect(service.rotate('1')).rejects.toThrow(
+          new HttpException('API key 1 is revoked', HttpStatus.CONFLICT),
+        );
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    describe('when the key does not exist', () => {
+      it('should throw', async () => {
+        apiKeyRepository.findOne.mockResolvedValue(null);
+        await expect(service.revoke('1')).rejects.toThrow(
+          new HttpException('API key 1 not found', HttpStatus.NOT_FOUND),
+        );
+      });
+    });
+
+    it('should set revokedAt', async () => {
+      apiKeyRepository.findOne.mockResolvedValue(storedKey());
+      const revoked = await service.revoke('1');
+      expect(revoked.revokedAt).toBeInstanceOf(Date);
+      expect(apiKeyRepository.update).toBeCalledWith(1, {
+        revokedAt: revoked.revokedAt,
+      });
+    });
+  });
+
+  describe('verify', () => {
+    it('should resolve a matching key to its identity', async () => {
+      queryBuilder.getOne.mockResolvedValue(storedKey());
+      expect(await service.verify('abc.secret')).toEqual({
+        id: 1,
+        name: 'ci',
+        owner: 'ops',
+        scopes: ['coffees:write'],
+      });
+      expect(queryBuilder.where).toBeCalledWith('apiKey.prefix = :prefix', {
+        prefix: 'abc',
+      });
+      expect(apiKeyRepository.update).toBeCalledWith(1, {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('should reject a wrong secret', async () => {
+      queryBuilder.getOne.mockResolvedValue(storedKey());
+      expect(await service.verify('abc.wrong')).toBeNull();
+    });
+
+    it('should reject an unknown prefix', async () => {
+      queryBuilder.getOne.mockResolvedValue(null);
+      expect(await service.verify('abc.secret')).toBeNull();
+    });
+
+    it('should reject a malformed key without querying', async () => {
+      expect(await service.verify('secret')).toBeNull();
+      expect(queryBuilder.getOne).not.toBeCalled();
+    });
+
+    it('should reject a revoked key', async () => {
+      queryBuilder.getOne.mockResolvedValue(
+        storedKey({ revokedAt: new Date() }),
+      );
+      expect(await service.verify('abc.secret')).toBeNull();
+    });
+
+    it('should reject an expired key', async () => {
+      queryBuilder.getOne.mockResolvedValue(
+        storedKey({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+      expect(await service.verify('abc.secret')).toBeNull();
+    });
+  });
+});
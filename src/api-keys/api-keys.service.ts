@@ -0,0 +1,137 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Repository } from 'typeorm';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeyIdentity } from './interfaces/api-key-identity.interface';
+
+export type IssuedApiKey = Omit<ApiKey, 'hash'> & { key: string };
+
+const hashSecret = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex');
+
+// Compared against when no key matches the prefix, so a miss costs the same as a bad secret
+const DUMMY_HASH = hashSecret('');
+
+const generateKey = () => {
+  const prefix = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  return { prefix, secret, key: `${prefix}.${secret}` };
+};
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+  ) {}
+
+  findAll() {
+    return this.apiKeyRepository.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: string) {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id: +id } });
+    if (!apiKey) {
+      throw new HttpException(`API key ${id} not found`, HttpStatus.NOT_FOUND);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Issues a new key. The returned `key` is the only time the plaintext is available.
+   */
+  async issue(createApiKeyDto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    this.assertExpiresInFuture(createApiKeyDto.expiresAt);
+
+    const { prefix, secret, key } = generateKey();
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        ...createApiKeyDto,
+        prefix,
+        hash: hashSecret(secret),
+      }),
+    );
+    // Never selected when keys are read back, so not returned here either
+    delete apiKey.hash;
+    return { ...apiKey, key };
+  }
+
+  /**
+   * Replaces the key's secret, the old one stops working immediately
+   */
+  async rotate(id: string): Promise<IssuedApiKey> {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      throw new HttpException(`API key ${id} is revoked`, HttpStatus.CONFLICT);
+    }
+
+    const { prefix, secret, key } = generateKey();
+    await this.apiKeyRepository.update(apiKey.id, {
+      prefix,
+      hash: hashSecret(secret),
+    });
+    return { ...apiKey, prefix, key };
+  }
+
+  async revoke(id: string) {
+    const apiKey = await this.findOne(id);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.update(apiKey.id, {
+        revokedAt: apiKey.revokedAt,
+      });
+    }
+    return apiKey;
+  }
+
+  /**
+   * Resolves a plaintext key to its identity, or null when it is unknown,
+   * revoked or expired
+   */
+  async verify(key: string): Promise<ApiKeyIdentity | null> {
+    const [prefix, secret] = key.split('.', 2);
+    if (!prefix || !secret) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .addSelect('apiKey.hash')
+      .where('apiKey.prefix = :prefix', { prefix })
+      .getOne();
+
+    const matches = timingSafeEqual(
+      Buffer.from(apiKey?.hash ?? DUMMY_HASH, 'hex'),
+      Buffer.from(hashSecret(secret), 'hex'),
+    );
+    if (!apiKey || !matches || !this.isActive(apiKey)) {
+      return null;
+    }
+
+    // Not awaited, bookkeeping should not slow down or fail the request
+    this.apiKeyRepository
+      .update(apiKey.id, { lastUsedAt: new Date() })
+      .catch(() => undefined);
+
+    const { id, name, owner, scopes } = apiKey;
+    return { id, name, owner, scopes };
+  }
+
+  private isActive(apiKey: ApiKey) {
+    return (
+      !apiKey.revokedAt &&
+      (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now())
+    );
+  }
+
+  private assertExpiresInFuture(expiresAt?: Date) {
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new HttpException(
+        'expiresAt must be in the future',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+}
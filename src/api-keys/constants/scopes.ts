@@ -0,0 +1,2 @@
+export const WILDCARD_SCOPE = '*';
+export const API_KEYS_ADMIN_SCOPE = 'api-keys:admin';
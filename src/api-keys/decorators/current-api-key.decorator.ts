@@ -0,0 +1,7 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ApiKeyIdentity } from '../interfaces/api-key-identity.interface';
+
+export const CurrentApiKey = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): ApiKeyIdentity | undefined =>
+    ctx.switchToHttp().getRequest().apiKey,
+);
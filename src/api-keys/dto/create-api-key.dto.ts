@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional, IsString } from 'class-validator';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'What the key is used for.' })
+  @IsString()
+  readonly name: string;
+
+  @ApiProperty({ description: 'Who is responsible for the key.' })
+  @IsString()
+  readonly owner: string;
+
+  @ApiProperty({
+    description: 'What the key may do',
+    examples: ['coffees:write', 'api-keys:admin'],
+  })
+  @IsString({ each: true })
+  readonly scopes: string[];
+
+  @ApiPropertyOptional({ description: 'When the key stops working.' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly expiresAt?: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column()
+  owner: string;
+
+  // The public part of a key (`<prefix>.<secret>`), used to find the row to compare against
+  @Index({ unique: true })
+  @Column()
+  prefix: string;
+
+  // sha256 of the secret part, the plaintext is only ever shown when issued
+  @Column({ select: false })
+  hash: string;
+
+  @Column('text', { array: true, default: '{}' })
+  scopes: string[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
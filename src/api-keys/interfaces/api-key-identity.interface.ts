@@ -0,0 +1,9 @@
+/**
+ * The caller behind a request, attached to it by ApiKeyGuard
+ */
+export interface ApiKeyIdentity {
+  id: number | null; // null for the bootstrap key from the app config
+  name: string;
+  owner: string;
+  scopes: string[];
+}
@@ -5,35 +5,50 @@ import { MiscController } from './misc/misc.controller';
 import { CoffeesModule } from './coffees/coffees.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from './database/database.module';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  createDataSource,
+  createDataSourceOptions,
+  DatabaseConfig,
+  PendingMigrationsError,
+} from './database/database.options';
+import { ConfigModule } from '@nestjs/config';
 import { CommonModule } from './common/common.module';
 import { ChainsModule } from './chains/chains.module';
-import * as Joi from '@hapi/joi';
+import { EventsModule } from './events/events.module';
+import { PhygitalsModule } from './phygitals/phygitals.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
 import appConfig from './config/app.config';
+import { envFilePaths, validateEnv } from './config/env.validation';
+import databaseConfig from './database/database.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
-      load: [appConfig],
+      isGlobal: true,
+      envFilePath: envFilePaths(),
+      validate: validateEnv,
+      load: [appConfig, databaseConfig],
     }),
     CoffeesModule,
     TypeOrmModule.forRootAsync({
-      imports: [ConfigModule],
-      useFactory: (config: ConfigService) => ({
-        type: 'postgres',
-        host: config.get('database.host'),
-        port: config.get<number>('database.port'),
-        username: config.get('database.user'),
-        password: config.get('database.password'),
-        database: config.get('database.name'),
+      useFactory: (database: DatabaseConfig) => ({
+        ...createDataSourceOptions(database),
         autoLoadEntities: true,
-        synchronize: true, // Disable in prod. Creates the tables & updates columns on-run if entity changes
+        toRetry: (err) => !(err instanceof PendingMigrationsError), // Retrying will not apply them
       }),
-      inject: [ConfigService],
+      dataSourceFactory: createDataSource,
+      inject: [databaseConfig.KEY],
     }),
     DatabaseModule,
     CommonModule,
     ChainsModule,
+    EventsModule,
+    PhygitalsModule,
+    ApiKeysModule,
+    HealthModule,
+    MetricsModule,
   ],
   controllers: [AppController, MiscController],
   providers: [AppService],
@@ -0,0 +1,67 @@
+import { registerAs } from '@nestjs/config';
+import { ChainIds } from '../common/constants/ChainIds';
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  blockExplorerUrl: string;
+  rpcUrl: string;
+  testnet: boolean;
+}
+
+const defaultChains: ChainConfig[] = [
+  {
+    chainId: ChainIds.Ethereum,
+    name: 'Ethereum',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    blockExplorerUrl: 'https://etherscan.io',
+    rpcUrl: 'https://cloudflare-eth.com',
+    testnet: false,
+  },
+  {
+    chainId: ChainIds.Goerli,
+    name: 'Goerli',
+    nativeCurrency: { name: 'Goerli Ether', symbol: 'ETH', decimals: 18 },
+    blockExplorerUrl: 'https://goerli.etherscan.io',
+    rpcUrl: 'https://rpc.ankr.com/eth_goerli',
+    testnet: true,
+  },
+  {
+    chainId: ChainIds.Polygon,
+    name: 'Polygon',
+    nativeCurrency: { name: 'MATIC', symbol: 'MATIC', decimals: 18 },
+    blockExplorerUrl: 'https://polygonscan.com',
+    rpcUrl: 'https://polygon-rpc.com',
+    testnet: false,
+  },
+  {
+    chainId: ChainIds.Mumbai,
+    name: 'Mumbai',
+    nativeCurrency: { name: 'MATIC', symbol: 'MATIC', decimals: 18 },
+    blockExplorerUrl: 'https://mumbai.polygonscan.com',
+    rpcUrl: 'https://rpc-mumbai.maticvigil.com',
+    testnet: true,
+  },
+];
+
+// CHAINS replaces the whole registry with a JSON array of ChainConfig,
+// CHAIN_<chainId>_RPC_URL swaps a single chain's RPC endpoint (e.g. for a keyed provider)
+export default registerAs('chains', () => {
+  const chains: ChainConfig[] = process.env.CHAINS
+    ? JSON.parse(process.env.CHAINS)
+    : defaultChains;
+
+  return {
+    rpcTimeoutMs: parseInt(process.env.CHAIN_RPC_TIMEOUT_MS, 10),
+    rpcCacheTtlMs: parseInt(process.env.CHAIN_RPC_CACHE_TTL_MS, 10),
+    registry: chains.map((chain) => ({
+      ...chain,
+      rpcUrl: process.env[`CHAIN_${chain.chainId}_RPC_URL`] || chain.rpcUrl,
+    })),
+  };
+});
@@ -1,11 +1,14 @@
-import { HttpException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ChainIds } from '../common/constants/ChainIds';
 import { ChainsController } from './chains.controller';
 import { ChainsService } from './chains.service';
 
 const mockChainService = {
-  getChainName: jest.fn(),
+  findAll: jest.fn(),
+  findOne: jest.fn(),
+  getStatus: jest.fn(),
+  ownerOf: jest.fn(),
+  tokenURI: jest.fn(),
 };
 
 describe('ChainsController', () => {
@@ -29,25 +32,43 @@ describe('ChainsController', () => {
     expect(controller).toBeDefined();
   });
 
+  describe('findAll', () => {
+    it('should return the chain registry', () => {
+      const chains = [{ chainId: ChainIds.Ethereum, name: 'Ethereum' }];
+      mockChainService.findAll.mockReturnValue(chains);
+      expect(controller.findAll()).toEqual(chains);
+    });
+  });
+
   describe('getChainInfo', () => {
-    it('should created a aggregated chain object', () => {
-      const chainId = ChainIds.Ethereum;
-      const name = 'Ethereum';
-      mockChainService.getChainName.mockReturnValue(name);
-      expect(controller.getChainInfo(chainId)).toEqual({
-        chainId,
-        name,
-      });
+    it("should return the chain's metadata", () => {
+      const chain = { chainId: ChainIds.Ethereum, name: 'Ethereum' };
+      mockChainService.findOne.mockReturnValue(chain);
+      expect(controller.getChainInfo(ChainIds.Ethereum)).toEqual(chain);
+      expect(mockChainService.findOne).toBeCalledWith(ChainIds.Ethereum);
     });
+  });
 
-    it('should throw on invalid chain id', () => {
-      try {
-        controller.getChainInfo(2);
-        expect(false);
-      } catch (e) {
-        expect(e).toBeInstanceOf(HttpException);
-        expect(e.message).toEqual(`${2} is not a supported chainId`);
-      }
+  describe('getToken', () => {
+    it('should combine the owner and token URI', async () => {
+      mockChainService.ownerOf.mockResolvedValue('0xowner');
+      mockChainService.tokenURI.mockResolvedValue('ipfs://1');
+      const { signal } = new AbortController();
+      expect(
+        await controller.getToken(ChainIds.Ethereum, '0xabc', '1', signal),
+      ).toEqual({
+        chainId: ChainIds.Ethereum,
+        contractAddress: '0xabc',
+        tokenId: '1',
+        owner: '0xowner',
+        tokenUri: 'ipfs://1',
+      });
+      expect(mockChainService.ownerOf).toBeCalledWith(
+        ChainIds.Ethereum,
+        '0xabc',
+        '1',
+        signal,
+      );
     });
   });
 });
@@ -1,9 +1,17 @@
 import { Controller, Get, Inject, Param } from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
-import { ChainIds } from '../common/constants/ChainIds';
+import { RequestSignal } from '../common/decorators/request-signal.decorator';
+import { Timeout } from '../common/decorators/timeout.decorator';
+import { ParseAddressPipe } from '../common/pipes/parse-address.pipe';
 import { ParseChainIdPipe } from '../common/pipes/parse-chain-id.pipe';
+import { ParseTokenIdPipe } from '../common/pipes/parse-token-id.pipe';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
 import { ChainsService } from './chains.service';
 
+// Every request on these routes reaches the chain's RPC endpoint
+const RPC_RATE_LIMIT = { limit: 30, windowMs: 60000 };
+const RPC_TIMEOUT_MS = 10000; // Outlasts a slow RPC endpoint, see CHAIN_RPC_TIMEOUT_MS
+
 @ApiTags('chains')
 @Controller('chains')
 export class ChainsController {
@@ -11,12 +19,39 @@ export class ChainsController {
     @Inject(ChainsService) private readonly chainService: ChainsService,
   ) {}
 
+  @Get()
+  findAll() {
+    return this.chainService.findAll();
+  }
+
   @Get(':chainId')
-  getChainInfo(@Param('chainId', ParseChainIdPipe) chainId: ChainIds) {
-    const name = this.chainService.getChainName(chainId);
-    return {
-      name,
-      chainId,
-    };
+  getChainInfo(@Param('chainId', ParseChainIdPipe) chainId: number) {
+    return this.chainService.findOne(chainId);
+  }
+
+  @RateLimit(RPC_RATE_LIMIT)
+  @Timeout(RPC_TIMEOUT_MS)
+  @Get(':chainId/status')
+  getStatus(
+    @Param('chainId', ParseChainIdPipe) chainId: number,
+    @RequestSignal() signal: AbortSignal,
+  ) {
+    return this.chainService.getStatus(chainId, signal);
+  }
+
+  @RateLimit(RPC_RATE_LIMIT)
+  @Timeout(RPC_TIMEOUT_MS)
+  @Get(':chainId/erc721/:contractAddress/:tokenId')
+  async getToken(
+    @Param('chainId', ParseChainIdPipe) chainId: number,
+    @Param('contractAddress', ParseAddressPipe) contractAddress: string,
+    @Param('tokenId', ParseTokenIdPipe) tokenId: string,
+    @RequestSignal() signal: AbortSignal,
+  ) {
+    const [owner, tokenUri] = await Promise.all([
+      this.chainService.ownerOf(chainId, contractAddress, tokenId, signal),
+      this.chainService.tokenURI(chainId, contractAddress, tokenId, signal),
+    ]);
+    return { chainId, contractAddress, tokenId, owner, tokenUri };
   }
 }
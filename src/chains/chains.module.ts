@@ -1,9 +1,14 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import chainsConfig from './chains.config';
 import { ChainsController } from './chains.controller';
 import { ChainsService } from './chains.service';
+import { JsonRpcClient } from './json-rpc.client';
 
 @Module({
+  imports: [ConfigModule.forFeature(chainsConfig)],
   controllers: [ChainsController],
-  providers: [ChainsService]
+  providers: [ChainsService, JsonRpcClient],
+  exports: [ChainsService],
 })
 export class ChainsModule {}
@@ -1,22 +1,85 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ChainIds } from '../common/constants/ChainIds';
+import chainsConfig, { ChainConfig } from './chains.config';
 import { ChainsService } from './chains.service';
+import { JsonRpcClient } from './json-rpc.client';
+import {
+  JsonRpcAbortedError,
+  JsonRpcResponseError,
+  JsonRpcTimeoutError,
+  JsonRpcTransportError,
+} from './json-rpc.errors';
+
+const ethereum: ChainConfig = {
+  chainId: ChainIds.Ethereum,
+  name: 'Ethereum',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  blockExplorerUrl: 'https://etherscan.io',
+  rpcUrl: 'https://rpc.example/secret-key',
+  testnet: false,
+};
 
 describe('ChainsService', () => {
   let service: ChainsService;
+  let jsonRpcClient: { call: jest.Mock };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ChainsService],
+      providers: [
+        ChainsService,
+        {
+          provide: chainsConfig.KEY,
+          useValue: {
+            rpcTimeoutMs: 1000,
+            rpcCacheTtlMs: 60000,
+            registry: [ethereum],
+          },
+        },
+        { provide: JsonRpcClient, useValue: { call: jest.fn() } },
+      ],
     }).compile();
 
     service = module.get<ChainsService>(ChainsService);
+    jsonRpcClient = module.get(JsonRpcClient);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
 
+  describe('findAll', () => {
+    it('should list the registry without RPC URLs', () => {
+      expect(service.findAll()).toEqual([
+        {
+          chainId: ethereum.chainId,
+          name: ethereum.name,
+          nativeCurrency: ethereum.nativeCurrency,
+          blockExplorerUrl: ethereum.blockExplorerUrl,
+          testnet: ethereum.testnet,
+        },
+      ]);
+    });
+  });
+
+  describe('findOne', () => {
+    describe('when the chain is in the registry', () => {
+      it('should return its metadata without the RPC URL', () => {
+        expect(service.findOne(ChainIds.Ethereum)).not.toHaveProperty('rpcUrl');
+        expect(
+          service.findOne(ChainIds.Ethereum).nativeCurrency.symbol,
+        ).toEqual('ETH');
+      });
+    });
+  });
+
+  describe('isSupported', () => {
+    it('should only accept chains in the registry', () => {
+      expect(service.isSupported(ChainIds.Ethereum)).toBe(true);
+      expect(service.isSupported(2)).toBe(false);
+    });
+  });
+
   describe('getChainName', () => {
     it("should return the ChainId's name", () => {
       expect(service.getChainName(ChainIds.Ethereum)).toEqual('Ethereum');
@@ -26,11 +89,128 @@ describe('ChainsService', () => {
         service.getChainName(2);
         expect(false);
       } catch (e) {
-        expect(e).toBeInstanceOf(TypeError);
-        expect(e.message).toEqual(
-          "Cannot read properties of undefined (reading '0')",
-        );
+        expect(e).toBeInstanceOf(HttpException);
+        expect(e.message).toEqual('2 is not a supported chainId');
       }
     });
   });
+
+  describe('getStatus', () => {
+    describe('when the RPC answers', () => {
+      it('should decode the block number and gas price', async () => {
+        jsonRpcClient.call.mockImplementation((url, method) =>
+          Promise.resolve(method === 'eth_blockNumber' ? '0xff' : '0x3b9aca00'),
+        );
+        expect(await service.getStatus(ChainIds.Ethereum)).toEqual({
+          chainId: ChainIds.Ethereum,
+          name: 'Ethereum',
+          blockNumber: 255,
+          gasPrice: '1000000000',
+        });
+        expect(jsonRpcClient.call).toBeCalledWith(
+          ethereum.rpcUrl,
+          'eth_blockNumber',
+          [],
+          1000,
+          expect.any(AbortSignal),
+        );
+      });
+    });
+    describe('when called again within the cache TTL', () => {
+      it('should reuse the cached results', async () => {
+        jsonRpcClient.call.mockResolvedValue('0x1');
+        await service.getStatus(ChainIds.Ethereum);
+        await service.getStatus(ChainIds.Ethereum);
+        expect(jsonRpcClient.call).toBeCalledTimes(2);
+      });
+    });
+    describe('when the RPC times out', () => {
+      it('should throw a gateway timeout and not cache the failure', async () => {
+        jsonRpcClient.call.mockRejectedValueOnce(
+          new JsonRpcTimeoutError('eth_blockNumber', 1000),
+        );
+        await expect(service.getBlockNumber(ChainIds.Ethereum)).rejects.toThrow(
+          new HttpException(
+            'Ethereum RPC did not answer eth_blockNumber in time',
+            HttpStatus.GATEWAY_TIMEOUT,
+          ),
+        );
+        jsonRpcClient.call.mockResolvedValueOnce('0x2');
+        expect(await service.getBlockNumber(ChainIds.Ethereum)).toEqual(2);
+      });
+    });
+    describe('when the RPC fails', () => {
+      it('should throw a bad gateway', async () => {
+        jsonRpcClient.call.mockRejectedValue(
+          new JsonRpcTransportError('eth_gasPrice', 'HTTP 500'),
+        );
+        try {
+          await service.getGasPrice(ChainIds.Ethereum);
+          expect(false);
+        } catch (e) {
+          expect(e).toBeInstanceOf(HttpException);
+          expect(e.getStatus()).toEqual(HttpStatus.BAD_GATEWAY);
+        }
+      });
+    });
+  });
+
+  describe('when callers abort', () => {
+    it('should abort the shared request only once every caller has', async () => {
+      jsonRpcClient.call.mockReturnValue(new Promise(() => undefined));
+      const first = new AbortController();
+      const second = new AbortController();
+      const firstCall = service.getBlockNumber(ChainIds.Ethereum, first.signal);
+      const secondCall = service.getBlockNumber(
+        ChainIds.Ethereum,
+        second.signal,
+      );
+      const upstreamSignal: AbortSignal = jsonRpcClient.call.mock.calls[0][4];
+
+      first.abort();
+      await expect(firstCall).rejects.toBeInstanceOf(JsonRpcAbortedError);
+      expect(upstreamSignal.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondCall).rejects.toBeInstanceOf(JsonRpcAbortedError);
+      expect(upstreamSignal.aborted).toBe(true);
+    });
+  });
+
+  describe('ownerOf', () => {
+    const contract = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+    describe('when the token exists', () => {
+      it('should eth_call ownerOf and return the checksummed owner', async () => {
+        jsonRpcClient.call.mockResolvedValue(
+          `0x${'0'.repeat(24)}fb6916095ca1df60bb79ce92ce3ea74c37c5d359`,
+        );
+        expect(await service.ownerOf(ChainIds.Ethereum, contract, '1')).toEqual(
+          '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+        );
+        expect(jsonRpcClient.call).toBeCalledWith(
+          ethereum.rpcUrl,
+          'eth_call',
+          [{ to: contract, data: `0x6352211e${'0'.repeat(63)}1` }, 'latest'],
+          1000,
+          expect.any(AbortSignal),
+        );
+      });
+    });
+    describe('when the call reverts', () => {
+      it('should throw a not found', async () => {
+        jsonRpcClient.call.mockRejectedValue(
+          new JsonRpcResponseError('eth_call', 3, 'execution reverted'),
+        );
+        await expect(
+          service.ownerOf(ChainIds.Ethereum, contract, '1'),
+        ).rejects.toThrow(
+          new HttpException(
+            `Token 1 not found on ${contract}`,
+            HttpStatus.NOT_FOUND,
+          ),
+        );
+      });
+    });
+  });
 });
@@ -1,9 +1,264 @@
-import { Injectable } from '@nestjs/common';
-import { ChainIds } from '../common/constants/ChainIds';
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import {
+  decodeAbiString,
+  encodeUint256,
+  hexToDecimal,
+  toChecksumAddress,
+} from '../common/utils/ethereum.util';
+import { onAbort } from '../common/utils/abort.util';
+import chainsConfig, { ChainConfig } from './chains.config';
+import { JsonRpcClient } from './json-rpc.client';
+import {
+  JsonRpcAbortedError,
+  JsonRpcResponseError,
+  JsonRpcTimeoutError,
+} from './json-rpc.errors';
+
+// ERC-721 function selectors, the first 4 bytes of keccak256 of the signature
+const OWNER_OF_SELECTOR = '0x6352211e'; // ownerOf(uint256)
+const TOKEN_URI_SELECTOR = '0xc87b56dd'; // tokenURI(uint256)
+
+// RPC URLs often embed provider keys, so they never leave the server
+export type ChainInfo = Omit<ChainConfig, 'rpcUrl'>;
+
+interface CachedRpcCall {
+  expiresAt: number;
+  result: Promise<unknown>;
+  abortController: AbortController;
+  waiters: number;
+}
 
 @Injectable()
 export class ChainsService {
-  getChainName(chainId: ChainIds) {
-    return Object.entries(ChainIds).find((x) => x[1] === chainId)[0];
+  // Holds promises so concurrent callers share one in-flight request
+  private readonly rpcCache = new Map<string, CachedRpcCall>();
+
+  constructor(
+    @Inject(chainsConfig.KEY)
+    private readonly config: ConfigType<typeof chainsConfig>,
+    private readonly jsonRpcClient: JsonRpcClient,
+  ) {}
+
+  findAll(): ChainInfo[] {
+    return this.config.registry.map((chain) => this.toChainInfo(chain));
+  }
+
+  findOne(chainId: number): ChainInfo {
+    return this.toChainInfo(this.getChain(chainId));
+  }
+
+  isSupported(chainId: number) {
+    return this.config.registry.some((chain) => chain.chainId === chainId);
+  }
+
+  getChainName(chainId: number) {
+    return this.getChain(chainId).name;
+  }
+
+  getChain(chainId: number): ChainConfig {
+    const chain = this.config.registry.find(
+      (chain) => chain.chainId === chainId,
+    );
+    if (!chain) {
+      throw new HttpException(
+        `${chainId} is not a supported chainId`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return chain;
+  }
+
+  async getStatus(chainId: number, signal?: AbortSignal) {
+    const [blockNumber, gasPrice] = await Promise.all([
+      this.getBlockNumber(chainId, signal),
+      this.getGasPrice(chainId, signal),
+    ]);
+    return {
+      chainId,
+      name: this.getChainName(chainId),
+      blockNumber,
+      gasPrice,
+    };
+  }
+
+  async getBlockNumber(chainId: number, signal?: AbortSignal): Promise<number> {
+    return parseInt(
+      await this.rpc<string>(chainId, 'eth_blockNumber', [], signal),
+      16,
+    );
+  }
+
+  /**
+   * In wei, as a decimal string
+   */
+  async getGasPrice(chainId: number, signal?: AbortSignal): Promise<string> {
+    return hexToDecimal(
+      await this.rpc<string>(chainId, 'eth_gasPrice', [], signal),
+    );
+  }
+
+  async ownerOf(
+    chainId: number,
+    contractAddress: string,
+    tokenId: string,
+    signal?: AbortSignal,
+  ) {
+    const result = await this.ethCall(
+      chainId,
+      contractAddress,
+      `${OWNER_OF_SELECTOR}${encodeUint256(tokenId)}`,
+      tokenId,
+      signal,
+    );
+    return toChecksumAddress(`0x${result.slice(-40)}`);
+  }
+
+  async tokenURI(
+    chainId: number,
+    contractAddress: string,
+    tokenId: string,
+    signal?: AbortSignal,
+  ) {
+    const result = await this.ethCall(
+      chainId,
+      contractAddress,
+      `${TOKEN_URI_SELECTOR}${encodeUint256(tokenId)}`,
+      tokenId,
+      signal,
+    );
+    return decodeAbiString(result);
+  }
+
+  private async ethCall(
+    chainId: number,
+    to: string,
+    data: string,
+    tokenId: string,
+    signal?: AbortSignal,
+  ) {
+    try {
+      return await this.rpc<string>(
+        chainId,
+        'eth_call',
+        [{ to, data }, 'latest'],
+        signal,
+      );
+    } catch (err) {
+      // ERC-721 requires ownerOf and tokenURI to revert for tokens that do not exist
+      if (err instanceof JsonRpcResponseError && err.isExecutionReverted) {
+        throw new HttpException(
+          `Token ${tokenId} not found on ${to}`,
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      throw err;
+    }
+  }
+
+  private rpc<T>(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    signal?: AbortSignal,
+  ) {
+    const chain = this.getChain(chainId);
+    const key = `${chainId}:${method}:${JSON.stringify(params)}`;
+    const now = Date.now();
+
+    const cached = this.rpcCache.get(key);
+    if (cached && cached.expiresAt > now) {
+      return this.waitFor<T>(cached, method, signal);
+    }
+
+    this.rpcCache.forEach(({ expiresAt }, cachedKey) => {
+      if (expiresAt <= now) {
+        this.rpcCache.delete(cachedKey);
+      }
+    });
+
+    const abortController = new AbortController();
+    const result = this.jsonRpcClient
+      .call<T>(
+        chain.rpcUrl,
+        method,
+        params,
+        this.config.rpcTimeoutMs,
+        abortController.signal,
+      )
+      .catch((err) => {
+        this.rpcCache.delete(key);
+        throw this.toHttpException(chain, err);
+      });
+    const call: CachedRpcCall = {
+      expiresAt: now + this.config.rpcCacheTtlMs,
+      result,
+      abortController,
+      waiters: 0,
+    };
+    this.rpcCache.set(key, call);
+    return this.waitFor<T>(call, method, signal);
+  }
+
+  /**
+   * Callers share one request, which is only aborted once every caller waiting on it has given up
+   */
+  private waitFor<T>(
+    call: CachedRpcCall,
+    method: string,
+    signal?: AbortSignal,
+  ) {
+    call.waiters++;
+    if (!signal) {
+      return call.result as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const stopListening = onAbort(signal, () => {
+        if (--call.waiters === 0) {
+          call.abortController.abort();
+        }
+        reject(new JsonRpcAbortedError(method));
+      });
+      call.result.then(
+        (value) => {
+          stopListening();
+          resolve(value as T);
+        },
+        (err) => {
+          stopListening();
+          reject(err);
+        },
+      );
+    });
+  }
+
+  private toHttpException(chain: ChainConfig, err: Error) {
+    if (err instanceof JsonRpcTimeoutError) {
+      return new HttpException(
+        `${chain.name} RPC did not answer ${err.method} in time`,
+        HttpStatus.GATEWAY_TIMEOUT,
+      );
+    }
+    if (err instanceof JsonRpcResponseError && err.isExecutionReverted) {
+      return err; // Callers know what a revert means for their call
+    }
+    if (err instanceof JsonRpcAbortedError) {
+      return err; // Nobody is waiting for an answer anymore
+    }
+    return new HttpException(
+      `${chain.name} RPC failed: ${err.message}`,
+      HttpStatus.BAD_GATEWAY,
+    );
+  }
+
+  private toChainInfo({
+    chainId,
+    name,
+    nativeCurrency,
+    blockExplorerUrl,
+    testnet,
+  }: ChainConfig): ChainInfo {
+    return { chainId, name, nativeCurrency, blockExplorerUrl, testnet };
   }
 }
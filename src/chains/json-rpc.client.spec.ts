@@ -0,0 +1,135 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { JsonRpcClient } from './json-rpc.client';
+import {
+  JsonRpcAbortedError,
+  JsonRpcResponseError,
+  JsonRpcTimeoutError,
+  JsonRpcTransportError,
+} from './json-rpc.errors';
+
+describe('JsonRpcClient', () => {
+  let client: JsonRpcClient;
+  let server: http.Server;
+  let url: string;
+  let handle: (
+    body: any,
+    response: http.ServerResponse,
+  ) => void | Promise<void>;
+
+  beforeAll(async () => {
+    // A stub JSON-RPC endpoint whose behaviour each test swaps out
+    server = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk) => chunks.push(chunk));
+      request.on('end', () =>
+        handle(JSON.parse(Buffer.concat(chunks).toString()), response),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    client = new JsonRpcClient();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const reply = (
+    response: http.ServerResponse,
+    body: unknown,
+    status = 200,
+  ) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  it('should be defined', () => {
+    expect(client).toBeDefined();
+  });
+
+  describe('call', () => {
+    describe('when the endpoint answers with a result', () => {
+      it('should send a JSON-RPC 2.0 request and resolve the result', async () => {
+        let received: any;
+        handle = (body, response) => {
+          received = body;
+          reply(response, { jsonrpc: '2.0', id: body.id, result: '0x10' });
+        };
+        expect(await client.call(url, 'eth_blockNumber', [], 1000)).toEqual(
+          '0x10',
+        );
+        expect(received).toEqual({
+          jsonrpc: '2.0',
+          id: expect.any(Number),
+          method: 'eth_blockNumber',
+          params: [],
+        });
+      });
+    });
+    describe('when the endpoint answers with an error object', () => {
+      it('should reject with a JsonRpcResponseError', async () => {
+        handle = (body, response) =>
+          reply(response, {
+            jsonrpc: '2.0',
+            id: body.id,
+            error: { code: 3, message: 'execution reverted' },
+          });
+        const call = client.call(url, 'eth_call', [], 1000);
+        await expect(call).rejects.toBeInstanceOf(JsonRpcResponseError);
+        await expect(call).rejects.toHaveProperty('isExecutionReverted', true);
+      });
+    });
+    describe('when the endpoint fails over HTTP', () => {
+      it('should reject with a JsonRpcTransportError', async () => {
+        handle = (body, response) => reply(response, 'Bad gateway', 502);
+        await expect(
+          client.call(url, 'eth_gasPrice', [], 1000),
+        ).rejects.toBeInstanceOf(JsonRpcTransportError);
+      });
+      it('should reject non JSON bodies', async () => {
+        handle = (body, response) => reply(response, '<html>');
+        await expect(
+          client.call(url, 'eth_gasPrice', [], 1000),
+        ).rejects.toThrow('eth_gasPrice failed: response is not JSON');
+      });
+    });
+    describe('when the endpoint is too slow', () => {
+      it('should reject with a JsonRpcTimeoutError', async () => {
+        handle = (body, response) => {
+          setTimeout(() => reply(response, { result: '0x1' }), 200);
+        };
+        await expect(
+          client.call(url, 'eth_blockNumber', [], 20),
+        ).rejects.toBeInstanceOf(JsonRpcTimeoutError);
+      });
+    });
+    describe('when the signal aborts', () => {
+      it('should reject with a JsonRpcAbortedError', async () => {
+        handle = (body, response) => {
+          setTimeout(() => reply(response, { result: '0x1' }), 200);
+        };
+        const abortController = new AbortController();
+        const result = client.call(
+          url,
+          'eth_blockNumber',
+          [],
+          1000,
+          abortController.signal,
+        );
+        abortController.abort();
+        await expect(result).rejects.toBeInstanceOf(JsonRpcAbortedError);
+      });
+    });
+    describe('when the endpoint is unreachable', () => {
+      it('should reject with a JsonRpcTransportError', async () => {
+        await expect(
+          client.call('http://127.0.0.1:1', 'eth_blockNumber', [], 1000),
+        ).rejects.toBeInstanceOf(JsonRpcTransportError);
+      });
+    });
+  });
+});
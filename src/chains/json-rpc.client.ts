@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import * as http from 'http';
+import * as https from 'https';
+import { onAbort } from '../common/utils/abort.util';
+import {
+  JsonRpcAbortedError,
+  JsonRpcResponseError,
+  JsonRpcTimeoutError,
+  JsonRpcTransportError,
+} from './json-rpc.errors';
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+@Injectable()
+export class JsonRpcClient {
+  private nextId = 1;
+
+  call<T>(
+    url: string,
+    method: string,
+    params: unknown[],
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: this.nextId++,
+      method,
+      params,
+    });
+    const transport = url.startsWith('https:') ? https : http;
+
+    return new Promise<T>((resolve, reject) => {
+      const request = transport.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+          },
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on('error', (err) => request.emit('error', err));
+          response.on('data', (chunk) => chunks.push(chunk));
+          response.on('end', () => {
+            clearTimeout(timer);
+            stopListening();
+            if (response.statusCode < 200 || response.statusCode >= 300) {
+              return reject(
+                new JsonRpcTransportError(
+                  method,
+                  `HTTP ${response.statusCode}`,
+                ),
+              );
+            }
+
+            let payload: JsonRpcResponse<T>;
+            try {
+              payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+            } catch {
+              return reject(
+                new JsonRpcTransportError(method, 'response is not JSON'),
+              );
+            }
+
+            if (payload.error) {
+              const { code, message, data } = payload.error;
+              return reject(
+                new JsonRpcResponseError(method, code, message, data),
+              );
+            }
+            if (!('result' in payload)) {
+              return reject(
+                new JsonRpcTransportError(method, 'response has no result'),
+              );
+            }
+            resolve(payload.result);
+          });
+        },
+      );
+
+      const timer = setTimeout(
+        () => request.destroy(new JsonRpcTimeoutError(method, timeoutMs)),
+        timeoutMs,
+      );
+      const stopListening = onAbort(signal, () =>
+        request.destroy(new JsonRpcAbortedError(method)),
+      );
+      request.on('error', (err) => {
+        clearTimeout(timer);
+        stopListening();
+        reject(
+          err instanceof JsonRpcTimeoutError ||
+            err instanceof JsonRpcAbortedError
+            ? err
+            : new JsonRpcTransportError(method, err.message),
+        );
+      });
+      request.end(body);
+    });
+  }
+}
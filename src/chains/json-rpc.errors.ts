@@ -0,0 +1,45 @@
+export class JsonRpcTimeoutError extends Error {
+  constructor(readonly method: string, readonly timeoutMs: number) {
+    super(`${method} timed out after ${timeoutMs}ms`);
+    this.name = 'JsonRpcTimeoutError';
+  }
+}
+
+/**
+ * The caller gave up on the request through its AbortSignal
+ */
+export class JsonRpcAbortedError extends Error {
+  constructor(readonly method: string) {
+    super(`${method} was aborted`);
+    this.name = 'JsonRpcAbortedError';
+  }
+}
+
+/**
+ * The endpoint could not be reached or did not answer with a JSON-RPC response
+ */
+export class JsonRpcTransportError extends Error {
+  constructor(readonly method: string, reason: string) {
+    super(`${method} failed: ${reason}`);
+    this.name = 'JsonRpcTransportError';
+  }
+}
+
+/**
+ * The endpoint answered with a JSON-RPC error object, e.g. a reverted eth_call
+ */
+export class JsonRpcResponseError extends Error {
+  constructor(
+    readonly method: string,
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(`${method} returned ${code}: ${message}`);
+    this.name = 'JsonRpcResponseError';
+  }
+
+  get isExecutionReverted() {
+    return /revert/i.test(this.message);
+  }
+}
@@ -0,0 +1,99 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ListFormat, streamList } from '../common/utils/list-format.util';
+import { validateDto } from '../common/utils/validate-dto.util';
+import { catalogKey, MAX_IMPORT_ROWS, readCatalogRows } from './catalog-import';
+import { COFFEES_LIST_STREAM } from './constants/list-stream';
+import { CreateCoffeeDto } from './dto/create-coffee.dto';
+import { Coffee } from './entities/coffee.entity';
+
+describe('readCatalogRows', () => {
+  it('should read CSV with flavours in one column', () => {
+    expect(
+      readCatalogRows(
+        'title,brand,flavours\nRoast,Buddy Brew,"Chocolate; Nutty ;"\nDecaf,Buddy Brew,',
+      ),
+    ).toEqual([
+      { title: 'Roast', brand: 'Buddy Brew', flavours: ['Chocolate', 'Nutty'] },
+      { title: 'Decaf', brand: 'Buddy Brew', flavours: [] },
+    ]);
+  });
+  it('should leave out empty CSV cells', () => {
+    expect(readCatalogRows('title,brand,flavours\nRoast,,')).toEqual([
+      { title: 'Roast', flavours: [] },
+    ]);
+  });
+  it('should read a JSON array, with flavours as a list or delimited', () => {
+    expect(
+      readCatalogRows([
+        { title: 'Roast', brand: 'Buddy Brew', flavours: ['Chocolate'] },
+        { title: 'Decaf', brand: 'Buddy Brew', flavours: 'Nutty;Caramel' },
+        'Espresso',
+      ]),
+    ).toEqual([
+      { title: 'Roast', brand: 'Buddy Brew', flavours: ['Chocolate'] },
+      { title: 'Decaf', brand: 'Buddy Brew', flavours: ['Nutty', 'Caramel'] },
+      'Espresso',
+    ]);
+  });
+  it('should skip the columns only exports have', async () => {
+    const coffee = {
+      id: 1,
+      title: 'Roast',
+      description: 'Dark',
+      brand: 'Buddy Brew',
+      recommendations: 3,
+      flavours: [{ name: 'Chocolate' }, { name: 'Nutty' }],
+      version: 2,
+      deletedAt: null,
+    } as Coffee;
+    let csv = '';
+    for await (const chunk of streamList(
+      Readable.from([coffee]),
+      ListFormat.Csv,
+      COFFEES_LIST_STREAM,
+    ).getStream()) {
+      csv += chunk;
+    }
+
+    const [record] = readCatalogRows(csv);
+    expect(record).toEqual({
+      title: 'Roast',
+      brand: 'Buddy Brew',
+      flavours: ['Chocolate', 'Nutty'],
+    });
+    expect((await validateDto(CreateCoffeeDto, record)).errors).toEqual([]);
+  });
+  it('should reject malformed CSV', () => {
+    expect(() => readCatalogRows('title,brand\n"Roast')).toThrow(
+      new HttpException(
+        'Invalid CSV: the quoted field starting on line 2 is never closed',
+        HttpStatus.BAD_REQUEST,
+      ),
+    );
+  });
+  it('should reject other bodies', () => {
+    expect(() => readCatalogRows({ title: 'Roast' })).toThrow(
+      new HttpException(
+        'Send a CSV file or a JSON array of coffees',
+        HttpStatus.BAD_REQUEST,
+      ),
+    );
+  });
+  it('should reject empty and oversized imports', () => {
+    expect(() => readCatalogRows('title,brand\n')).toThrow(
+      'The import has no rows',
+    );
+    expect(() =>
+      readCatalogRows(new Array(MAX_IMPORT_ROWS + 1).fill({})),
+    ).toThrow(`An import may have at most ${MAX_IMPORT_ROWS} rows`);
+  });
+});
+
+describe('catalogKey', () => {
+  it('should ignore case and surrounding spaces', () => {
+    expect(catalogKey({ title: ' Roast', brand: 'BUDDY Brew ' })).toBe(
+      catalogKey({ title: 'roast', brand: 'buddy brew' }),
+    );
+  });
+});
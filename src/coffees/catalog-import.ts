@@ -0,0 +1,97 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CsvParseError, parseCsvRecords } from '../common/utils/csv.util';
+
+export const FLAVOURS_DELIMITER = ';';
+export const MAX_IMPORT_ROWS = 1000;
+
+// Spreadsheets hold the flavours of a coffee in a single cell
+const splitFlavours = (record: unknown) => {
+  if (
+    typeof record !== 'object' ||
+    record === null ||
+    typeof (record as Record<string, unknown>).flavours !== 'string'
+  ) {
+    return record;
+  }
+  const { flavours, ...fields } = record as Record<string, string>;
+  return {
+    ...fields,
+    flavours: flavours
+      .split(FLAVOURS_DELIMITER)
+      .map((flavour) => flavour.trim())
+      .filter((flavour) => flavour.length > 0),
+  };
+};
+
+// List exports include them but coffees cannot be written with them, so they are skipped for an export to import back
+const EXPORT_ONLY_COLUMNS = [
+  'id',
+  'description',
+  'recommendations',
+  'version',
+  'deletedAt',
+];
+
+const omitExportOnlyColumns = (record: unknown) => {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    return record;
+  }
+  const fields = { ...(record as Record<string, unknown>) };
+  EXPORT_ONLY_COLUMNS.forEach((column) => delete fields[column]);
+  return fields;
+};
+
+// An empty cell means the value is missing, as a JSON row would leave it out
+const omitEmptyCells = (record: Record<string, string>) =>
+  Object.keys(record)
+    .filter((column) => column === 'flavours' || record[column] !== '')
+    .reduce<Record<string, string>>((fields, column) => {
+      fields[column] = record[column];
+      return fields;
+    }, {});
+
+/**
+ * Turns an import body, CSV text or a parsed JSON array, into one record per row
+ */
+export const readCatalogRows = (body: unknown): unknown[] => {
+  let records: unknown[];
+  if (typeof body === 'string') {
+    try {
+      records = parseCsvRecords(body).map(omitEmptyCells);
+    } catch (err) {
+      if (err instanceof CsvParseError) {
+        throw new HttpException(err.message, HttpStatus.BAD_REQUEST);
+      }
+      throw err;
+    }
+  } else if (Array.isArray(body)) {
+    records = body;
+  } else {
+    throw new HttpException(
+      'Send a CSV file or a JSON array of coffees',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  if (!records.length) {
+    throw new HttpException('The import has no rows', HttpStatus.BAD_REQUEST);
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new HttpException(
+      `An import may have at most ${MAX_IMPORT_ROWS} rows`,
+      HttpStatus.PAYLOAD_TOO_LARGE,
+    );
+  }
+  return records.map((record) => splitFlavours(omitExportOnlyColumns(record)));
+};
+
+/**
+ * Coffees are matched by title and brand, ignoring case and surrounding spaces
+ */
+export const catalogKey = ({
+  title,
+  brand,
+}: {
+  title: string;
+  brand: string;
+}) => `${title.trim().toLowerCase()}\n${brand.trim().toLowerCase()}`;
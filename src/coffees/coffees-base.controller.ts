@@ -0,0 +1,200 @@
+import {
+  Body,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiConsumes, ApiProduces, ApiTags } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import {
+  BulkResponseDto,
+  mapBulkResponse,
+} from '../common/dto/bulk-response.dto';
+import { HttpCache } from '../common/decorators/http-cache.decorator';
+import { CSV_CONTENT_TYPE } from '../common/utils/csv.util';
+import {
+  LIST_FORMATS,
+  ListFormat,
+  ListStreamOptions,
+  negotiateListFormat,
+  streamList,
+} from '../common/utils/list-format.util';
+import { Public } from '../common/decorators/public.decorator';
+import { RequestSignal } from '../common/decorators/request-signal.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
+import { COFFEE_CACHE, COFFEES_LIST_CACHE } from './constants/cache';
+import { CoffeesService } from './coffees.service';
+import { Coffee } from './entities/coffee.entity';
+import { IncludeDeletedGuard } from './guards/include-deleted.guard';
+import { BulkCreateCoffeesDto } from './dto/bulk-create-coffees.dto';
+import { ImportCoffeesQueryDto } from './dto/import-coffees-query.dto';
+import { BulkDeleteCoffeesDto } from './dto/bulk-delete-coffees.dto';
+import { BulkUpdateCoffeesDto } from './dto/bulk-update-coffees.dto';
+import { CreateCoffeeDto } from './dto/create-coffee.dto';
+import { QueryCoffeesDto } from './dto/query-coffees.dto';
+import { UpdateCoffeeDto } from './dto/update-coffee.dto';
+
+/**
+ * The coffee routes of every API version, each version's controller decides how a coffee is sent
+ */
+@ApiTags('coffees')
+@UsePipes(ValidationPipe)
+export abstract class CoffeesBaseController<T> {
+  constructor(protected readonly coffeeService: CoffeesService) {}
+
+  protected abstract readonly listStream: ListStreamOptions<Coffee>;
+
+  protected abstract toResponse(coffee: Coffee): T;
+
+  @Public()
+  @UseGuards(IncludeDeletedGuard)
+  @HttpCache(COFFEES_LIST_CACHE)
+  @ApiProduces(...LIST_FORMATS)
+  @Get()
+  async findAll(
+    @Query() query: QueryCoffeesDto,
+    @RequestSignal() signal: AbortSignal,
+    @Headers('accept') accept?: string,
+  ): Promise<PaginatedResponseDto<T> | StreamableFile> {
+    const format = negotiateListFormat(accept);
+    if (format !== ListFormat.Json) {
+      return streamList(
+        await this.coffeeService.streamAll(query),
+        format,
+        this.listStream,
+      );
+    }
+    return this.toPage(await this.coffeeService.findAll(query, signal));
+  }
+
+  @Public()
+  @Get('top')
+  async findTop(@Query() paginationQuery: PaginationQueryDto) {
+    return (await this.coffeeService.findTop(paginationQuery)).map((coffee) =>
+      this.toResponse(coffee),
+    );
+  }
+
+  @RequireScopes('coffees:write')
+  @RateLimit({ limit: 20, windowMs: 60000 })
+  @Post('bulk')
+  async createMany(
+    @Body() body: BulkCreateCoffeesDto,
+  ): Promise<BulkResponseDto<T>> {
+    return mapBulkResponse(
+      await this.coffeeService.createMany(body),
+      (coffee) => this.toResponse(coffee),
+    );
+  }
+
+  @RequireScopes('coffees:write')
+  @Patch()
+  async updateMany(
+    @Body() body: BulkUpdateCoffeesDto,
+  ): Promise<BulkResponseDto<T>> {
+    return mapBulkResponse(
+      await this.coffeeService.updateMany(body),
+      (coffee) => this.toResponse(coffee),
+    );
+  }
+
+  @RequireScopes('coffees:write')
+  @Delete()
+  async deleteMany(
+    @Body() body: BulkDeleteCoffeesDto,
+  ): Promise<BulkResponseDto<T>> {
+    return mapBulkResponse(
+      await this.coffeeService.removeMany(body),
+      (coffee) => this.toResponse(coffee),
+    );
+  }
+
+  @RequireScopes('coffees:write')
+  @ApiConsumes(CSV_CONTENT_TYPE, 'application/json')
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  importCatalog(@Body() body: unknown, @Query() query: ImportCoffeesQueryDto) {
+    return this.coffeeService.importCatalog(body, query);
+  }
+
+  @RequireScopes('coffees:write')
+  @Get('trash')
+  async findTrash(
+    @Query() paginationQuery: PaginationQueryDto,
+  ): Promise<PaginatedResponseDto<T>> {
+    return this.toPage(await this.coffeeService.findTrash(paginationQuery));
+  }
+
+  @RequireScopes('coffees:admin')
+  @Delete('trash')
+  purge() {
+    return this.coffeeService.purge();
+  }
+
+  @Public()
+  @HttpCache(COFFEE_CACHE)
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.toResponse(await this.coffeeService.findOne(id));
+  }
+
+  @RequireScopes('coffees:write')
+  @RateLimit({ limit: 20, windowMs: 60000 })
+  @Post()
+  async create(@Body() body: CreateCoffeeDto) {
+    return this.toResponse(await this.coffeeService.create(body));
+  }
+
+  @RequireScopes('coffees:write')
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: UpdateCoffeeDto,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    return this.toResponse(await this.coffeeService.update(id, body, ifMatch));
+  }
+
+  @Post(':id/recommend')
+  @HttpCode(HttpStatus.OK)
+  async recommend(
+    @Param('id') id: string,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    return this.toResponse(
+      await this.coffeeService.recommendCoffee(id, ifMatch),
+    );
+  }
+
+  @RequireScopes('coffees:write')
+  @Delete(':id')
+  async delete(@Param('id') id: string) {
+    return this.toResponse(await this.coffeeService.remove(id));
+  }
+
+  @RequireScopes('coffees:write')
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  async restore(@Param('id') id: string) {
+    return this.toResponse(await this.coffeeService.restore(id));
+  }
+
+  private toPage({
+    items,
+    ...page
+  }: PaginatedResponseDto<Coffee>): PaginatedResponseDto<T> {
+    return { ...page, items: items.map((coffee) => this.toResponse(coffee)) };
+  }
+}
@@ -0,0 +1,142 @@
+import { HttpStatus, StreamableFile } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { HttpCacheInterceptor } from '../common/interceptors/http-cache.interceptor';
+import { CoffeesV2Controller } from './coffees-v2.controller';
+import { CoffeesService } from './coffees.service';
+
+describe('CoffeesV2Controller', () => {
+  let controller: CoffeesV2Controller;
+  let coffeesService: Record<
+    'findAll' | 'streamAll' | 'findOne' | 'update' | 'findTrash',
+    jest.Mock
+  >;
+
+  const coffee = {
+    id: 1,
+    title: 'Shipwreck Roast',
+    description: null,
+    brand: 'Buddy Brew',
+    recommendations: 2,
+    version: 4,
+    flavours: [{ id: 1, name: 'Chocolate' }],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CoffeesV2Controller],
+      providers: [
+        {
+          provide: CoffeesService,
+          useValue: {
+            findAll: jest.fn(),
+            streamAll: jest.fn(),
+            findOne: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            remove: jest.fn(),
+            findTop: jest.fn(),
+            recommendCoffee: jest.fn(),
+            findTrash: jest.fn(),
+            restore: jest.fn(),
+            purge: jest.fn(),
+            createMany: jest.fn(),
+            updateMany: jest.fn(),
+            removeMany: jest.fn(),
+            importCatalog: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideInterceptor(HttpCacheInterceptor)
+      .useValue({})
+      .compile();
+
+    controller = module.get<CoffeesV2Controller>(CoffeesV2Controller);
+    coffeesService = module.get(CoffeesService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('findOne', () => {
+    it('should flatten flavours to their names', async () => {
+      coffeesService.findOne.mockResolvedValue(coffee);
+      expect(await controller.findOne('1')).toEqual({
+        id: 1,
+        title: 'Shipwreck Roast',
+        description: null,
+        brand: 'Buddy Brew',
+        recommendations: 2,
+        flavours: ['Chocolate'],
+        version: 4,
+        deletedAt: null,
+      });
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should flatten the deleted coffees', async () => {
+      const deletedAt = new Date();
+      coffeesService.findTrash.mockResolvedValue({
+        items: [{ ...coffee, deletedAt }],
+        total: 1,
+        limit: null,
+        offset: 0,
+      });
+      expect(await controller.findTrash({})).toMatchObject({
+        items: [{ id: 1, flavours: ['Chocolate'], deletedAt }],
+        total: 1,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should pass If-Match on to the service', async () => {
+      coffeesService.update.mockResolvedValue(coffee);
+      await controller.update('1', { title: 'Shipwreck' }, '"2.4"');
+      expect(coffeesService.update).toBeCalledWith(
+        '1',
+        { title: 'Shipwreck' },
+        '"2.4"',
+      );
+    });
+  });
+
+  describe('findAll', () => {
+    it('should keep the pagination of the page', async () => {
+      coffeesService.findAll.mockResolvedValue({
+        items: [coffee],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      });
+      expect(await controller.findAll({}, undefined)).toMatchObject({
+        items: [{ id: 1, flavours: ['Chocolate'] }],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      });
+    });
+    it('should stream coffees as NDJSON in the v2 shape', async () => {
+      coffeesService.streamAll.mockResolvedValue(Readable.from([coffee]));
+      const file = (await controller.findAll(
+        {},
+        undefined,
+        'application/x-ndjson',
+      )) as StreamableFile;
+      let body = '';
+      for await (const chunk of file.getStream()) {
+        body += chunk;
+      }
+      expect(JSON.parse(body)).toMatchObject({ flavours: ['Chocolate'] });
+      expect(coffeesService.findAll).not.toBeCalled();
+    });
+    it('should refuse formats it cannot produce', async () => {
+      await expect(
+        controller.findAll({}, undefined, 'application/xml'),
+      ).rejects.toMatchObject({ status: HttpStatus.NOT_ACCEPTABLE });
+    });
+  });
+});
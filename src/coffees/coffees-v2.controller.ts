@@ -0,0 +1,14 @@
+import { Controller } from '@nestjs/common';
+import { CoffeesBaseController } from './coffees-base.controller';
+import { COFFEES_V2_LIST_STREAM } from './constants/list-stream';
+import { CoffeeV2Dto, toCoffeeV2 } from './dto/coffee-v2.dto';
+import { Coffee } from './entities/coffee.entity';
+
+@Controller({ path: 'coffees', version: '2' })
+export class CoffeesV2Controller extends CoffeesBaseController<CoffeeV2Dto> {
+  protected readonly listStream = COFFEES_V2_LIST_STREAM;
+
+  protected toResponse(coffee: Coffee) {
+    return toCoffeeV2(coffee);
+  }
+}
@@ -2,4 +2,8 @@ import { registerAs } from '@nestjs/config';
 
 export default registerAs('coffees', () => ({
   foo: 'bar',
+  // PATCH and recommend answer 428 without an If-Match header
+  requireIfMatch: process.env.COFFEES_REQUIRE_IF_MATCH === 'true',
+  // How long deleted coffees stay restorable before a purge removes them for good
+  trashRetentionDays: parseInt(process.env.COFFEES_TRASH_RETENTION_DAYS, 10),
 }));
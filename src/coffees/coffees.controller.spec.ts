@@ -1,9 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { HttpCacheInterceptor } from '../common/interceptors/http-cache.interceptor';
 import { CoffeesController } from './coffees.controller';
 import { CoffeesService } from './coffees.service';
 
 describe('CoffeesController', () => {
   let controller: CoffeesController;
+  let coffeesService: Record<'findOne', jest.Mock>;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -13,19 +15,41 @@ describe('CoffeesController', () => {
           provide: CoffeesService,
           useValue: {
             findAll: jest.fn(),
+            streamAll: jest.fn(),
             findOne: jest.fn(),
             create: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
+            findTop: jest.fn(),
+            recommendCoffee: jest.fn(),
+            findTrash: jest.fn(),
+            restore: jest.fn(),
+            purge: jest.fn(),
+            createMany: jest.fn(),
+            updateMany: jest.fn(),
+            removeMany: jest.fn(),
+            importCatalog: jest.fn(),
           },
         },
       ],
-    }).compile();
+    })
+      .overrideInterceptor(HttpCacheInterceptor)
+      .useValue({})
+      .compile();
 
     controller = module.get<CoffeesController>(CoffeesController);
+    coffeesService = module.get(CoffeesService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('findOne', () => {
+    it('should send the coffee as stored', async () => {
+      const coffee = { id: 1, flavours: [{ id: 1, name: 'Chocolate' }] };
+      coffeesService.findOne.mockResolvedValue(coffee);
+      expect(await controller.findOne('1')).toBe(coffee);
+    });
+  });
 });
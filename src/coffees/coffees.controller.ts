@@ -1,56 +1,17 @@
-import {
-  Body,
-  Controller,
-  Delete,
-  Get,
-  HttpCode,
-  HttpStatus,
-  Param,
-  Patch,
-  Post,
-  Query,
-  Res,
-  SetMetadata,
-  UsePipes,
-  ValidationPipe,
-} from '@nestjs/common';
-import { CreateCoffeeDto } from './dto/create-coffee.dto';
-import { CoffeesService } from './coffees.service';
-import { UpdateCoffeeDto } from './dto/update-coffee.dto';
-import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
-import { Public } from '../common/decorators/public.decorator';
-import { ApiTags } from '@nestjs/swagger';
+import { Controller, VERSION_NEUTRAL } from '@nestjs/common';
+import { DeprecatedVersion } from '../common/decorators/deprecated-version.decorator';
+import { CoffeesBaseController } from './coffees-base.controller';
+import { COFFEES_LIST_STREAM } from './constants/list-stream';
+import { Coffee } from './entities/coffee.entity';
 
-@ApiTags('coffees')
-@UsePipes(ValidationPipe)
-@Controller('coffees')
-export class CoffeesController {
-  constructor(private readonly coffeeService: CoffeesService) {}
+@DeprecatedVersion({ successor: '/v2/coffees' })
+// Also serves unversioned requests, as /coffees did before versioning
+@Controller({ path: 'coffees', version: ['1', VERSION_NEUTRAL] })
+export class CoffeesController extends CoffeesBaseController<Coffee> {
+  protected readonly listStream = COFFEES_LIST_STREAM;
 
-  @Public()
-  @Get()
-  findAll(@Query() paginationQuery: PaginationQueryDto) {
-    return this.coffeeService.findAll(paginationQuery);
-  }
-
-  @Public()
-  @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.coffeeService.findOne(id);
-  }
-
-  @Post()
-  create(@Body() body: CreateCoffeeDto) {
-    return this.coffeeService.create(body);
-  }
-
-  @Patch(':id')
-  update(@Param('id') id: string, @Body() body: UpdateCoffeeDto) {
-    return this.coffeeService.update(id, body);
-  }
-
-  @Delete(':id')
-  delete(@Param('id') id: string) {
-    return this.coffeeService.remove(id);
+  // v1 sends coffees as they are stored, with flavour objects
+  protected toResponse(coffee: Coffee) {
+    return coffee;
   }
 }
@@ -2,23 +2,30 @@ import { Module, ValidationPipe } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { APP_PIPE } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Event } from '../../src/events/entities/event.entity';
+import { HttpCacheModule } from '../common/cache/http-cache.module';
+import { EventsModule } from '../events/events.module';
 import coffeesConfig from './coffees.config';
 import { CoffeesController } from './coffees.controller';
+import { CoffeesV2Controller } from './coffees-v2.controller';
 import { CoffeesService } from './coffees.service';
+import { FlavoursController } from './flavours.controller';
+import { FlavoursService } from './flavours.service';
 import { COFFEE_BRANDS } from './constants/titles';
 import { Coffee } from './entities/coffee.entity';
 import { Flavour } from './entities/flavour.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Flavour, Coffee, Event]),
+    TypeOrmModule.forFeature([Flavour, Coffee]),
     ConfigModule.forFeature(coffeesConfig),
+    EventsModule,
+    HttpCacheModule,
   ],
-  controllers: [CoffeesController],
+  controllers: [CoffeesController, CoffeesV2Controller, FlavoursController],
   exports: [CoffeesService],
   providers: [
     CoffeesService,
+    FlavoursService,
     {
       provide: COFFEE_BRANDS,
       useFactory: () => ['Carson Inc.', 'Jaegar Inc.'],
@@ -1,34 +1,102 @@
 import { any } from '@hapi/joi';
-import { HttpException } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigModule, ConfigType } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import {
+  createMockQueryBuilder,
   createMockRepositoryProvider,
+  MockQueryBuilder,
   MockRepository,
 } from '../common/test/mock-repository';
-import { DataSource, Repository } from 'typeorm';
+import { SortOrder } from '../common/constants/SortOrder';
+import { Readable } from 'stream';
+import { DataSource, IsNull, Not, QueryFailedError } from 'typeorm';
 import coffeesConfig from './coffees.config';
 import { CoffeesService } from './coffees.service';
 import { COFFEE_BRANDS } from './constants/titles';
 import { Coffee } from './entities/coffee.entity';
 import { Flavour } from './entities/flavour.entity';
+import { EventsService } from '../events/events.service';
+import { FlavoursService } from './flavours.service';
 import { CreateCoffeeDto } from './dto/create-coffee.dto';
 import { UpdateCoffeeDto } from './dto/update-coffee.dto';
+import { CoffeeSortField, FlavourMatch } from './dto/query-coffees.dto';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+import { ResponseCache } from '../common/cache/response-cache';
 
 describe('CoffeesService', () => {
   let service: CoffeesService;
   let coffeeRepository: MockRepository;
-  let flavourRepository: MockRepository;
+  let flavoursService: { preloadByName: jest.Mock };
+  let eventsService: { record: jest.Mock };
+  let registry: MetricsRegistry;
+  let responseCache: { invalidate: jest.Mock };
+  let queryRunner: {
+    connect: jest.Mock;
+    startTransaction: jest.Mock;
+    commitTransaction: jest.Mock;
+    rollbackTransaction: jest.Mock;
+    release: jest.Mock;
+    isTransactionActive: boolean;
+    manager: Record<'increment' | 'findOne', jest.Mock>;
+  };
+  let manager: Record<
+    | 'create'
+    | 'preload'
+    | 'save'
+    | 'findOne'
+    | 'increment'
+    | 'softDelete'
+    | 'restore'
+    | 'createQueryBuilder',
+    jest.Mock
+  >;
+  let config: ConfigType<typeof coffeesConfig>;
+  let dataSource: { transaction: jest.Mock };
 
   beforeEach(async () => {
+    manager = {
+      create: jest.fn(),
+      preload: jest.fn(),
+      save: jest.fn(),
+      findOne: jest.fn(),
+      increment: jest.fn(),
+      softDelete: jest.fn(),
+      restore: jest.fn(),
+      createQueryBuilder: jest.fn(),
+    };
+    queryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(() => {
+        queryRunner.isTransactionActive = true;
+      }),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      isTransactionActive: false,
+      manager: {
+        increment: jest.fn(),
+        findOne: jest.fn(),
+      },
+    };
     const module: TestingModule = await Test.createTestingModule({
       imports: [ConfigModule.forFeature(coffeesConfig)],
       providers: [
         CoffeesService,
-        { provide: DataSource, useValue: {} },
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn(() => queryRunner),
+            transaction: jest.fn((work) => work(manager)),
+            manager,
+          },
+        },
         createMockRepositoryProvider(Coffee),
-        createMockRepositoryProvider(Flavour),
+        { provide: FlavoursService, useValue: { preloadByName: jest.fn() } },
+        { provide: EventsService, useValue: { record: jest.fn() } },
+        MetricsRegistry,
+        { provide: ResponseCache, useValue: { invalidate: jest.fn() } },
         {
           provide: COFFEE_BRANDS,
           useFactory: () => ['Carson Inc.', 'Jaegar Inc.'],
@@ -39,7 +107,12 @@ describe('CoffeesService', () => {
 
     service = module.get<CoffeesService>(CoffeesService);
     coffeeRepository = module.get<MockRepository>(getRepositoryToken(Coffee));
-    flavourRepository = module.get<MockRepository>(getRepositoryToken(Flavour));
+    flavoursService = module.get(FlavoursService);
+    eventsService = module.get(EventsService);
+    registry = module.get(MetricsRegistry);
+    responseCache = module.get(ResponseCache);
+    config = module.get(coffeesConfig.KEY);
+    dataSource = module.get(DataSource);
   });
 
   it('should be defined', () => {
@@ -47,33 +120,147 @@ describe('CoffeesService', () => {
   });
 
   describe('findAll', () => {
+    let queryBuilder: MockQueryBuilder;
+
+    beforeEach(() => {
+      queryBuilder = createMockQueryBuilder();
+      coffeeRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    });
+
     describe('when coffee exists', () => {
-      it('should return all the coffee objects', async () => {
-        coffeeRepository.find.mockReturnValue([{}]);
-        expect(await service.findAll({})).toEqual([{}]);
+      it('should return all the coffee objects with the total', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[{}], 1]);
+        expect(await service.findAll({})).toEqual({
+          items: [{}],
+          total: 1,
+          limit: null,
+          offset: 0,
+        });
       });
     });
     describe('when no coffee exists for a ID', () => {
       it('should return empty', async () => {
-        coffeeRepository.find.mockReturnValue([]);
-        expect(await service.findAll({})).toEqual([]);
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        expect(await service.findAll({})).toEqual({
+          items: [],
+          total: 0,
+          limit: null,
+          offset: 0,
+        });
       });
     });
     describe('when called with pagination arguments', () => {
       it('should transform args to skip and take, and request flavours as relation', async () => {
-        const findSpy = jest.spyOn(coffeeRepository, 'find');
-        await service.findAll({ limit: 5, offset: 10 });
-        expect(findSpy).toBeCalledWith({
-          relations: {
-            flavours: true,
-          },
-          skip: 10,
-          take: 5,
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        const result = await service.findAll({ limit: 5, offset: 10 });
+        expect(queryBuilder.leftJoinAndSelect).toBeCalledWith(
+          'coffee.flavours',
+          'flavour',
+        );
+        expect(queryBuilder.skip).toBeCalledWith(10);
+        expect(queryBuilder.take).toBeCalledWith(5);
+        expect(result).toEqual({ items: [], total: 0, limit: 5, offset: 10 });
+      });
+    });
+    describe('when called with filters', () => {
+      it('should filter by brand, title and recommendations', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({
+          brand: 'Carson Inc.',
+          title: '100%',
+          minRecommendations: 1,
+          maxRecommendations: 5,
+        });
+        expect(queryBuilder.andWhere).toBeCalledWith('coffee.brand = :brand', {
+          brand: 'Carson Inc.',
+        });
+        expect(queryBuilder.andWhere).toBeCalledWith(
+          'coffee.title ILIKE :title',
+          { title: '%100\\%%' },
+        );
+        expect(queryBuilder.andWhere).toBeCalledWith(
+          'coffee.recommendations >= :minRecommendations',
+          { minRecommendations: 1 },
+        );
+        expect(queryBuilder.andWhere).toBeCalledWith(
+          'coffee.recommendations <= :maxRecommendations',
+          { maxRecommendations: 5 },
+        );
+      });
+      it('should only require any flavour by default', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({ flavours: ['Vanilla', 'Mocha'] });
+        expect(queryBuilder.setParameter).toBeCalledWith('flavours', [
+          'Vanilla',
+          'Mocha',
+        ]);
+        expect(queryBuilder.having).not.toBeCalled();
+      });
+      it('should require every flavour when matching all', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({
+          flavours: ['Vanilla', 'Mocha'],
+          flavourMatch: FlavourMatch.All,
         });
+        expect(queryBuilder.having).toBeCalled();
+        expect(queryBuilder.setParameter).toBeCalledWith('flavourCount', 2);
+      });
+    });
+    describe('when called with includeDeleted', () => {
+      it('should include coffees in the trash', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({ includeDeleted: true });
+        expect(queryBuilder.withDeleted).toBeCalled();
+      });
+      it('should leave out coffees in the trash by default', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({});
+        expect(queryBuilder.withDeleted).not.toBeCalled();
+      });
+    });
+    describe('when called with sorting arguments', () => {
+      it('should sort by the field and break ties by id', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+        await service.findAll({
+          sort: CoffeeSortField.Recommendations,
+          order: SortOrder.Desc,
+        });
+        expect(queryBuilder.orderBy).toBeCalledWith(
+          'coffee.recommendations',
+          'DESC',
+        );
+        expect(queryBuilder.addOrderBy).toBeCalledWith('coffee.id', 'DESC');
       });
     });
   });
 
+  describe('streamAll', () => {
+    let queryBuilder: MockQueryBuilder;
+
+    beforeEach(() => {
+      queryBuilder = createMockQueryBuilder();
+      coffeeRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    });
+
+    it('should stream the filtered coffees with their flavours aggregated', async () => {
+      const rows = Readable.from([]);
+      queryBuilder.stream.mockResolvedValue(rows);
+      expect(
+        await service.streamAll({ brand: 'Buddy Brew', limit: 5, offset: 10 }),
+      ).toBe(rows);
+      expect(queryBuilder.andWhere).toBeCalledWith('coffee.brand = :brand', {
+        brand: 'Buddy Brew',
+      });
+      expect(queryBuilder.leftJoinAndSelect).not.toBeCalled();
+      expect(queryBuilder.addSelect).toBeCalledWith(
+        expect.any(Function),
+        'flavours',
+      );
+      expect(queryBuilder.offset).toBeCalledWith(10);
+      expect(queryBuilder.limit).toBeCalledWith(5);
+    });
+  });
+
   describe('findOne', () => {
     describe('when coffee with ID exists', () => {
       it('should return the coffee object', async () => {
@@ -114,6 +301,7 @@ describe('CoffeesService', () => {
     const flavourEntity: Flavour = {
       id: 0,
       name: 'Vanilla',
+      normalizedName: 'vanilla',
       coffees: [],
     };
     const coffeeEntity: Coffee = {
@@ -121,21 +309,45 @@ describe('CoffeesService', () => {
       id: 0,
       description: '',
       recommendations: 0,
+      version: 1,
+      deletedAt: null,
       flavours: [flavourEntity],
     };
 
     describe('when creating a coffee', () => {
       it('should return a coffee object', async () => {
-        coffeeRepository.create.mockReturnValue(coffeeEntity);
-        coffeeRepository.save.mockReturnValue(coffeeEntity);
+        manager.create.mockReturnValue(coffeeEntity);
+        manager.save.mockResolvedValue(coffeeEntity);
         expect(await service.create(createCoffeeDto)).toEqual(coffeeEntity);
       });
-      it('should create related flavours', async () => {
-        coffeeRepository.create.mockReturnValue(coffeeEntity);
-        coffeeRepository.save.mockReturnValue(coffeeEntity);
+      it('should create related flavours in the same transaction', async () => {
+        flavoursService.preloadByName.mockResolvedValue(flavourEntity);
+        manager.create.mockReturnValue(coffeeEntity);
+        manager.save.mockResolvedValue(coffeeEntity);
         expect((await service.create(createCoffeeDto)).flavours[0]).toEqual(
           flavourEntity,
         );
+        expect(flavoursService.preloadByName).toBeCalledWith(
+          'Vanilla',
+          manager,
+        );
+      });
+      it('should record a coffee_created event', async () => {
+        manager.create.mockReturnValue(coffeeEntity);
+        manager.save.mockResolvedValue(coffeeEntity);
+        await service.create(createCoffeeDto);
+        expect(eventsService.record).toBeCalledWith(
+          'coffee',
+          'coffee_created',
+          {
+            coffeeId: coffeeEntity.id,
+            title: coffeeEntity.title,
+            brand: coffeeEntity.brand,
+            flavours: createCoffeeDto.flavours,
+          },
+          manager,
+        );
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
       });
     });
   });
@@ -147,10 +359,13 @@ describe('CoffeesService', () => {
       id: 0,
       description: '',
       recommendations: 0,
+      version: 1,
+      deletedAt: null,
     };
     const flavourEntity: Flavour = {
       id: 0,
       name: 'Vanilla',
+      normalizedName: 'vanilla',
       coffees: [],
     };
     const updateCoffeeName: UpdateCoffeeDto = {
@@ -161,31 +376,63 @@ describe('CoffeesService', () => {
       flavours: ['Vanilla'],
     };
 
+    beforeEach(() => {
+      manager.preload.mockImplementation((entity, coffee) => ({
+        ...coffeeEntity,
+        ...coffee,
+      }));
+      manager.save.mockImplementation((coffee) => ({
+        ...coffee,
+        version: coffee.version + 1,
+      }));
+    });
+
     describe('when updating a coffee', () => {
       it('should update a coffee if it exists', async () => {
-        coffeeRepository.preload.mockImplementation((coffee) => ({
-          ...coffeeEntity,
-          ...coffee,
-        }));
-        coffeeRepository.save.mockImplementation((coffee) => coffee);
         expect(await service.update('0', updateCoffeeName)).toEqual({
           ...coffeeEntity,
           title: updateCoffeeName.title,
+          version: 2,
         });
+        expect(manager.findOne).not.toBeCalled();
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
       });
       it('should update flavours if in the dto', async () => {
-        flavourRepository.findOne.mockReturnValue(flavourEntity);
-        coffeeRepository.preload.mockImplementation((coffee) => ({
-          ...coffeeEntity,
-          ...coffee,
-        }));
-        coffeeRepository.save.mockImplementation((coffee) => coffee);
+        flavoursService.preloadByName.mockResolvedValue(flavourEntity);
         expect(await service.update('0', updateCoffeeFlavour)).toEqual({
           ...coffeeEntity,
           flavours: [flavourEntity],
+          version: 2,
         });
+        expect(flavoursService.preloadByName).toBeCalledWith(
+          'Vanilla',
+          manager,
+        );
+      });
+      it('should bump the version when only flavours changed', async () => {
+        flavoursService.preloadByName.mockResolvedValue(flavourEntity);
+        manager.save.mockImplementation((coffee) => coffee);
+        expect(await service.update('0', updateCoffeeFlavour)).toEqual(
+          expect.objectContaining({ version: 2 }),
+        );
+        expect(manager.increment).toBeCalledWith(
+          Coffee,
+          { id: 0 },
+          'version',
+          1,
+        );
+      });
+      it('should record a coffee_updated event', async () => {
+        await service.update('0', updateCoffeeName);
+        expect(eventsService.record).toBeCalledWith(
+          'coffee',
+          'coffee_updated',
+          { coffeeId: 0, changes: updateCoffeeName },
+          manager,
+        );
       });
       it('should throw if no coffee exists', async () => {
+        manager.preload.mockResolvedValue(undefined);
         try {
           await service.update('0', updateCoffeeName);
           expect(false);
@@ -195,5 +442,567 @@ describe('CoffeesService', () => {
         }
       });
     });
+    describe('when If-Match is sent', () => {
+      it('should update if it matches the current version', async () => {
+        manager.findOne.mockResolvedValue(coffeeEntity);
+        expect(await service.update('0', updateCoffeeName, '"1"')).toEqual(
+          expect.objectContaining({ version: 2 }),
+        );
+        expect(manager.findOne).toBeCalledWith(Coffee, {
+          where: { id: 0 },
+          lock: { mode: 'pessimistic_write' },
+        });
+      });
+      it('should accept the ETag served by any API version', async () => {
+        manager.findOne.mockResolvedValue(coffeeEntity);
+        expect(await service.update('0', updateCoffeeName, '"2.1"')).toEqual(
+          expect.objectContaining({ version: 2 }),
+        );
+      });
+      it('should throw a precondition failed on a stale version', async () => {
+        manager.findOne.mockResolvedValue({ ...coffeeEntity, version: 3 });
+        await expect(
+          service.update('0', updateCoffeeName, '"1"'),
+        ).rejects.toThrow(
+          new HttpException(
+            'Coffee 0 has changed, it is at version 3',
+            HttpStatus.PRECONDITION_FAILED,
+          ),
+        );
+        expect(manager.save).not.toBeCalled();
+        expect(responseCache.invalidate).not.toBeCalled();
+      });
+      it('should throw if no coffee exists', async () => {
+        manager.findOne.mockResolvedValue(null);
+        await expect(
+          service.update('0', updateCoffeeName, '"1"'),
+        ).rejects.toThrow(
+          new HttpException('Coffee 0 not found', HttpStatus.NOT_FOUND),
+        );
+      });
+    });
+    describe('when If-Match is required', () => {
+      beforeEach(() => {
+        config.requireIfMatch = true;
+      });
+
+      it('should throw a precondition required without the header', async () => {
+        await expect(service.update('0', updateCoffeeName)).rejects.toThrow(
+          new HttpException(
+            'This request requires an If-Match header',
+            HttpStatus.PRECONDITION_REQUIRED,
+          ),
+        );
+        expect(manager.save).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should return deleted coffees, most recently deleted first', async () => {
+      coffeeRepository.findAndCount.mockResolvedValue([[{ id: 1 }], 1]);
+      expect(await service.findTrash({ limit: 5 })).toEqual({
+        items: [{ id: 1 }],
+        total: 1,
+        limit: 5,
+        offset: 0,
+      });
+      expect(coffeeRepository.findAndCount).toBeCalledWith({
+        where: { deletedAt: Not(IsNull()) },
+        withDeleted: true,
+        relations: {
+          flavours: true,
+        },
+        order: {
+          deletedAt: 'DESC',
+          id: 'ASC',
+        },
+        skip: 0,
+        take: 5,
+      });
+    });
+  });
+
+  describe('remove', () => {
+    describe('when coffee with ID exists', () => {
+      it('should move it to the trash and record a coffee_deleted event', async () => {
+        const coffee = { id: 1, title: 'Coffee', brand: 'Coffee Inc.' };
+        manager.findOne.mockResolvedValue(coffee);
+        expect(await service.remove('1')).toEqual(coffee);
+        expect(manager.softDelete).toBeCalledWith(Coffee, 1);
+        expect(eventsService.record).toBeCalledWith(
+          'coffee',
+          'coffee_deleted',
+          { coffeeId: 1, title: 'Coffee', brand: 'Coffee Inc.' },
+          manager,
+        );
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+    });
+    describe('when no coffee exists for a ID', () => {
+      it('should throw without recording an event', async () => {
+        manager.findOne.mockResolvedValue(null);
+        await expect(service.remove('1')).rejects.toThrow(
+          new HttpException('Coffee 1 not found', HttpStatus.NOT_FOUND),
+        );
+        expect(eventsService.record).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('createMany', () => {
+    const item = { title: 'Coffee', brand: 'Coffee Inc.', flavours: [] };
+
+    beforeEach(() => {
+      manager.create.mockImplementation((entity, coffee) => coffee);
+      manager.save.mockImplementation(async (coffee) => ({ id: 1, ...coffee }));
+    });
+
+    describe('by default', () => {
+      it('should create every item in one transaction', async () => {
+        expect(await service.createMany({ items: [item, item] })).toEqual({
+          succeeded: 2,
+          failed: 0,
+          items: [
+            { index: 0, status: 201, data: { id: 1, ...item } },
+            { index: 1, status: 201, data: { id: 1, ...item } },
+          ],
+        });
+        expect(dataSource.transaction).toBeCalledTimes(1);
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+      it('should reject the request when any item is invalid', async () => {
+        await expect(
+          service.createMany({ items: [item, { title: 1, flavours: [] }] }),
+        ).rejects.toThrow(
+          new HttpException(
+            {
+              message: [
+                'items.1.title must be a string',
+                'items.1.brand must be a string',
+              ],
+            },
+            HttpStatus.BAD_REQUEST,
+          ),
+        );
+        expect(dataSource.transaction).not.toBeCalled();
+      });
+    });
+    describe('in partial mode', () => {
+      it('should report how every item went', async () => {
+        manager.save
+          .mockRejectedValueOnce(
+            new HttpException('Title taken', HttpStatus.CONFLICT),
+          )
+          .mockRejectedValueOnce(new Error('db down'));
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+        expect(
+          await service.createMany({
+            items: [item, item, { title: 'Coffee' }, item],
+            partial: true,
+          }),
+        ).toEqual({
+          succeeded: 1,
+          failed: 3,
+          items: [
+            { index: 0, status: 409, error: 'Title taken' },
+            { index: 1, status: 500, error: 'Internal server error' },
+            {
+              index: 2,
+              status: 400,
+              error: [
+                'brand must be a string',
+                'each value in flavours must be a string',
+              ],
+            },
+            { index: 3, status: 201, data: { id: 1, ...item } },
+          ],
+        });
+        expect(dataSource.transaction).toBeCalledTimes(3);
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+      it('should report constraint violations the way single requests do', async () => {
+        const violation = (code: string) =>
+          new QueryFailedError('INSERT', [], { code });
+        manager.save
+          .mockRejectedValueOnce(violation('23505'))
+          .mockRejectedValueOnce(violation('23503'));
+
+        expect(
+          (await service.createMany({ items: [item, item], partial: true }))
+            .items,
+        ).toEqual([
+          {
+            index: 0,
+            status: 409,
+            error: 'A record with the same unique value already exists',
+          },
+          {
+            index: 1,
+            status: 422,
+            error: 'The change would break a reference between records',
+          },
+        ]);
+      });
+    });
+  });
+
+  describe('updateMany', () => {
+    beforeEach(() => {
+      manager.preload.mockImplementation((entity, coffee) => ({
+        version: 1,
+        ...coffee,
+      }));
+      manager.save.mockImplementation(async (coffee) => ({
+        ...coffee,
+        version: coffee.version + 1,
+      }));
+    });
+
+    it('should check the version of items that have one', async () => {
+      manager.findOne.mockResolvedValue({ id: 2, version: 1 });
+      expect(
+        await service.updateMany({
+          items: [
+            { id: 1, title: 'Coffee' },
+            { id: 2, version: 1, title: 'Tea' },
+          ],
+        }),
+      ).toMatchObject({
+        succeeded: 2,
+        items: [
+          { index: 0, data: { id: 1, title: 'Coffee' } },
+          { index: 1, data: { id: 2, title: 'Tea', version: 2 } },
+        ],
+      });
+      expect(manager.findOne).toBeCalledTimes(1);
+    });
+    it('should name the item that failed the transaction', async () => {
+      manager.preload.mockResolvedValueOnce({ id: 1 }).mockResolvedValue(null);
+      await expect(
+        service.updateMany({
+          items: [
+            { id: 1, title: 'Coffee' },
+            { id: 9, title: 'Tea' },
+          ],
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          { message: 'Item 1: Coffee 9 not found', index: 1 },
+          HttpStatus.NOT_FOUND,
+        ),
+      );
+      expect(responseCache.invalidate).not.toBeCalled();
+    });
+  });
+
+  describe('removeMany', () => {
+    it('should report coffees that do not exist in partial mode', async () => {
+      manager.findOne
+        .mockResolvedValueOnce({ id: 1, title: 'Coffee' })
+        .mockResolvedValueOnce(null);
+      expect(await service.removeMany({ ids: [1, 2], partial: true })).toEqual({
+        succeeded: 1,
+        failed: 1,
+        items: [
+          { index: 0, status: 200, data: { id: 1, title: 'Coffee' } },
+          { index: 1, status: 404, error: 'Coffee 2 not found' },
+        ],
+      });
+      expect(manager.softDelete).toBeCalledTimes(1);
+    });
+  });
+
+  describe('restore', () => {
+    describe('when the coffee is in the trash', () => {
+      it('should restore it and record a coffee_restored event in one transaction', async () => {
+        const coffee = { id: 1, title: 'Coffee', deletedAt: null };
+        manager.findOne.mockResolvedValue({ ...coffee, deletedAt: new Date() });
+        coffeeRepository.findOne.mockResolvedValue(coffee);
+        expect(await service.restore('1')).toEqual(coffee);
+        expect(manager.findOne).toBeCalledWith(Coffee, {
+          where: { id: 1 },
+          withDeleted: true,
+        });
+        expect(manager.restore).toBeCalledWith(Coffee, 1);
+        expect(eventsService.record).toBeCalledWith(
+          'coffee',
+          'coffee_restored',
+          { coffeeId: 1 },
+          manager,
+        );
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+    });
+    describe('when the coffee is not in the trash', () => {
+      it('should throw a not found', async () => {
+        manager.findOne.mockResolvedValue({ id: 1, deletedAt: null });
+        await expect(service.restore('1')).rejects.toThrow(
+          new HttpException(
+            'Coffee 1 is not in the trash',
+            HttpStatus.NOT_FOUND,
+          ),
+        );
+        expect(manager.restore).not.toBeCalled();
+        expect(eventsService.record).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('purge', () => {
+    let queryBuilder: MockQueryBuilder;
+
+    beforeEach(() => {
+      queryBuilder = createMockQueryBuilder();
+      queryBuilder.delete.mockReturnValue(queryBuilder);
+      coffeeRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+      jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 9, 31));
+      config.trashRetentionDays = 30;
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should delete coffees deleted before the retention', async () => {
+      queryBuilder.execute.mockResolvedValue({ affected: 2 });
+      const deletedBefore = new Date(Date.UTC(2026, 9, 1));
+      expect(await service.purge()).toEqual({ purged: 2, deletedBefore });
+      expect(queryBuilder.where).toBeCalledWith('"deletedAt" < :cutoff', {
+        cutoff: deletedBefore,
+      });
+      expect(eventsService.record).toBeCalledWith('coffee', 'coffees_purged', {
+        purged: 2,
+        deletedBefore: deletedBefore.toISOString(),
+      });
+    });
+    it('should not record an event when nothing was purged', async () => {
+      queryBuilder.execute.mockResolvedValue({ affected: 0 });
+      expect(await service.purge()).toMatchObject({ purged: 0 });
+      expect(eventsService.record).not.toBeCalled();
+    });
+  });
+
+  describe('importCatalog', () => {
+    const csv = [
+      'title,brand,flavours',
+      'Roast,Buddy Brew,Chocolate;Nutty',
+      'New Blend,Buddy Brew,',
+      'Broken,,',
+      'roast ,BUDDY BREW,Caramel',
+    ].join('\n');
+    let queryBuilder: MockQueryBuilder;
+
+    beforeEach(() => {
+      queryBuilder = createMockQueryBuilder();
+      queryBuilder.getMany.mockResolvedValue([
+        { id: 7, title: 'Roast', brand: 'Buddy Brew', version: 3 },
+      ]);
+      manager.createQueryBuilder.mockReturnValue(queryBuilder);
+    });
+
+    describe('when dry running', () => {
+      it('should report every row without writing', async () => {
+        expect(await service.importCatalog(csv, { dryRun: true })).toEqual({
+          dryRun: true,
+          created: 1,
+          updated: 1,
+          rejected: 2,
+          rows: [
+            { row: 1, action: 'update', coffeeId: 7 },
+            { row: 2, action: 'create' },
+            { row: 3, action: 'reject', errors: ['brand must be a string'] },
+            {
+              row: 4,
+              action: 'reject',
+              errors: ['Same title and brand as row 1'],
+            },
+          ],
+        });
+        expect(queryBuilder.where).toBeCalledWith(
+          'LOWER(TRIM(coffee.title)) IN (:...titles)',
+          { titles: ['roast', 'new blend'] },
+        );
+        expect(dataSource.transaction).not.toBeCalled();
+        expect(manager.save).not.toBeCalled();
+        expect(flavoursService.preloadByName).not.toBeCalled();
+      });
+    });
+    describe('when importing', () => {
+      it('should create and update the valid rows in one transaction', async () => {
+        manager.findOne.mockResolvedValue({ id: 7, version: 3 });
+        manager.preload.mockImplementation((entity, coffee) => ({
+          version: 3,
+          ...coffee,
+        }));
+        manager.create.mockImplementation((entity, coffee) => coffee);
+        manager.save.mockImplementation(async (coffee) => ({
+          id: 8,
+          ...coffee,
+          version: (coffee.version ?? 0) + 1,
+        }));
+
+        expect(
+          await service.importCatalog(
+            [
+              { title: 'Roast', brand: 'Buddy Brew', flavours: 'Chocolate' },
+              { title: 'New Blend', brand: 'Buddy Brew', flavours: [] },
+            ],
+            {},
+          ),
+        ).toMatchObject({
+          dryRun: false,
+          created: 1,
+          updated: 1,
+          rejected: 0,
+          rows: [
+            { row: 1, action: 'update', coffeeId: 7 },
+            { row: 2, action: 'create', coffeeId: 8 },
+          ],
+        });
+        expect(dataSource.transaction).toBeCalledTimes(1);
+        expect(manager.findOne).toBeCalledWith(
+          Coffee,
+          expect.objectContaining({ where: { id: 7 } }),
+        );
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+      it('should roll back when a matched coffee changed meanwhile', async () => {
+        manager.findOne.mockResolvedValue({ id: 7, version: 4 });
+        await expect(
+          service.importCatalog(
+            [{ title: 'Roast', brand: 'Buddy Brew', flavours: [] }],
+            {},
+          ),
+        ).rejects.toThrow(
+          new HttpException(
+            {
+              message: 'Row 1: Coffee 7 has changed, it is at version 4',
+              row: 1,
+            },
+            HttpStatus.PRECONDITION_FAILED,
+          ),
+        );
+        expect(responseCache.invalidate).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('findTop', () => {
+    describe('when called without a limit', () => {
+      it('should return the most recommended coffees first', async () => {
+        coffeeRepository.find.mockReturnValue([]);
+        const findSpy = jest.spyOn(coffeeRepository, 'find');
+        await service.findTop({});
+        expect(findSpy).toBeCalledWith({
+          relations: {
+            flavours: true,
+          },
+          order: {
+            recommendations: 'DESC',
+            id: 'ASC',
+          },
+          skip: undefined,
+          take: 10,
+        });
+      });
+    });
+  });
+
+  describe('recommendCoffee', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    describe('when coffee with ID exists', () => {
+      it('should increment and record an event in one transaction', async () => {
+        const coffee = { id: 1, recommendations: 1 };
+        queryRunner.manager.increment.mockResolvedValue({ affected: 1 });
+        queryRunner.manager.findOne.mockResolvedValue(coffee);
+
+        expect(await service.recommendCoffee('1')).toEqual(coffee);
+        expect(queryRunner.manager.increment).toBeCalledWith(
+          Coffee,
+          { id: 1, deletedAt: IsNull() },
+          'recommendations',
+          1,
+        );
+        expect(eventsService.record).toBeCalledWith(
+          'coffee',
+          'recommend_coffee',
+          { coffeeId: 1 },
+          queryRunner.manager,
+        );
+        expect(queryRunner.commitTransaction).toBeCalled();
+        expect(queryRunner.release).toBeCalled();
+        expect(registry.render()).toContain('coffee_recommendations_total 1');
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+    });
+    describe('when If-Match is stale', () => {
+      it('should roll back and throw a precondition failed', async () => {
+        queryRunner.manager.findOne.mockResolvedValue({ id: 1, version: 2 });
+        await expect(service.recommendCoffee('1', '"1"')).rejects.toThrow(
+          new HttpException(
+            'Coffee 1 has changed, it is at version 2',
+            HttpStatus.PRECONDITION_FAILED,
+          ),
+        );
+        expect(queryRunner.manager.increment).not.toBeCalled();
+        expect(queryRunner.rollbackTransaction).toBeCalled();
+      });
+    });
+    describe('when If-Match is required', () => {
+      it('should throw a precondition required without the header', async () => {
+        config.requireIfMatch = true;
+        await expect(service.recommendCoffee('1')).rejects.toThrow(
+          new HttpException(
+            'This request requires an If-Match header',
+            HttpStatus.PRECONDITION_REQUIRED,
+          ),
+        );
+        expect(queryRunner.manager.increment).not.toBeCalled();
+      });
+    });
+    describe('when no coffee exists for a ID', () => {
+      it('should roll back and throw a not found', async () => {
+        queryRunner.manager.increment.mockResolvedValue({ affected: 0 });
+        await expect(service.recommendCoffee('1')).rejects.toThrow(
+          new HttpException('Coffee 1 not found', HttpStatus.NOT_FOUND),
+        );
+        expect(eventsService.record).not.toBeCalled();
+        expect(queryRunner.rollbackTransaction).toBeCalled();
+        expect(queryRunner.release).toBeCalled();
+      });
+    });
+    describe('when the transaction fails', () => {
+      it('should roll back, log and rethrow the error', async () => {
+        const error = new Error('db down');
+        const logError = jest
+          .spyOn(Logger.prototype, 'error')
+          .mockImplementation();
+        queryRunner.manager.increment.mockResolvedValue({ affected: 1 });
+        eventsService.record.mockRejectedValue(error);
+        await expect(service.recommendCoffee('1')).rejects.toBe(error);
+        expect(queryRunner.commitTransaction).not.toBeCalled();
+        expect(queryRunner.rollbackTransaction).toBeCalled();
+        expect(queryRunner.release).toBeCalled();
+        expect(logError).toBeCalledWith(
+          'Failed to recommend coffee 1',
+          error.stack,
+        );
+      });
+    });
+    describe('when no connection can be made', () => {
+      it('should release the query runner and rethrow the error', async () => {
+        const error = new Error('connection refused');
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+        queryRunner.connect.mockRejectedValue(error);
+        await expect(service.recommendCoffee('1')).rejects.toBe(error);
+        expect(queryRunner.rollbackTransaction).not.toBeCalled();
+        expect(queryRunner.release).toBeCalled();
+      });
+    });
   });
 });
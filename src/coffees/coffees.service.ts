@@ -4,44 +4,153 @@ import {
   HttpStatus,
   Inject,
   Injectable,
+  Logger,
 } from '@nestjs/common';
+import { Readable } from 'stream';
 import { CreateCoffeeDto } from './dto/create-coffee.dto';
 import { Coffee } from './entities/coffee.entity';
+import { Flavour } from './entities/flavour.entity';
 import { UpdateCoffeeDto } from './dto/update-coffee.dto';
+import { BulkCreateCoffeesDto } from './dto/bulk-create-coffees.dto';
+import { ImportCoffeesQueryDto } from './dto/import-coffees-query.dto';
+import {
+  ImportAction,
+  ImportReportDto,
+  ImportRowReportDto,
+} from './dto/import-report.dto';
+import { catalogKey, readCatalogRows } from './catalog-import';
+import { BulkDeleteCoffeesDto } from './dto/bulk-delete-coffees.dto';
+import {
+  BulkUpdateCoffeeDto,
+  BulkUpdateCoffeesDto,
+} from './dto/bulk-update-coffees.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { DataSource, Repository } from 'typeorm';
-import { Flavour } from './entities/flavour.entity';
+import { DataSource, EntityManager, IsNull, Not, Repository } from 'typeorm';
+import { FlavoursService } from './flavours.service';
 import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
-import { Event } from '../../src/events/entities/event.entity';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { SortOrder } from '../common/constants/SortOrder';
+import {
+  CoffeeSortField,
+  FlavourMatch,
+  QueryCoffeesDto,
+} from './dto/query-coffees.dto';
+import { EventsService } from '../events/events.service';
+import { COFFEE_EVENT_TYPE, CoffeeEventName } from './constants/events';
 import { COFFEE_BRANDS } from './constants/titles';
+import { COFFEES_CACHE_TAG } from './constants/cache';
 import { ConfigType } from '@nestjs/config';
 import coffeesConfig from './coffees.config';
+import { withQueryCancellation } from '../database/query-cancellation';
+import { streamQuery } from '../database/query-stream';
+import { mapDatabaseError } from '../common/utils/database-error.util';
+import { matchesIfMatch, versionETag } from '../common/cache/etag';
+import { ResponseCache } from '../common/cache/response-cache';
+import {
+  BulkItemResultDto,
+  BulkResponseDto,
+} from '../common/dto/bulk-response.dto';
+import { ValidatedItem, validateDto } from '../common/utils/validate-dto.util';
+import { Counter } from '../metrics/metric';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+
+const DEFAULT_TOP_COFFEES_LIMIT = 10;
+
+// Selected as is when streaming, flavours are aggregated separately
+const STREAMED_COLUMNS = [
+  'title',
+  'description',
+  'brand',
+  'recommendations',
+  'version',
+  'deletedAt',
+] as const;
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
 
 @Injectable()
 export class CoffeesService {
+  private readonly logger = new Logger(CoffeesService.name);
+  private readonly recommendations: Counter;
+
   constructor(
     @InjectRepository(Coffee)
     private readonly coffeeRepository: Repository<Coffee>,
-    @InjectRepository(Flavour)
-    private readonly flavourRepository: Repository<Flavour>,
+    private readonly flavoursService: FlavoursService,
     private readonly dataSource: DataSource,
+    private readonly eventsService: EventsService,
     @Inject(COFFEE_BRANDS) coffeeBrands: string[],
     @Inject(coffeesConfig.KEY)
     private readonly config: ConfigType<typeof coffeesConfig>,
-  ) {}
-
-  findAll(paginationQuery: PaginationQueryDto) {
-    return this.coffeeRepository.find({
-      relations: {
-        flavours: true,
-      },
-      skip: paginationQuery.offset,
-      take: paginationQuery.limit,
+    registry: MetricsRegistry,
+    private readonly responseCache: ResponseCache,
+  ) {
+    this.recommendations = registry.counter({
+      name: 'coffee_recommendations_total',
+      help: 'Coffees recommended',
     });
   }
 
-  findOne(id: string) {
-    const coffee = this.coffeeRepository.findOne({
+  async findAll(
+    query: QueryCoffeesDto,
+    signal?: AbortSignal,
+  ): Promise<PaginatedResponseDto<Coffee>> {
+    const { limit, offset = 0 } = query;
+    const queryBuilder = this.createListQuery(query).leftJoinAndSelect(
+      'coffee.flavours',
+      'flavour',
+    );
+
+    const [items, total] = await withQueryCancellation(
+      this.dataSource,
+      signal,
+      (queryRunner) =>
+        queryBuilder
+          .setQueryRunner(queryRunner)
+          .skip(offset)
+          .take(limit)
+          .getManyAndCount(),
+    );
+
+    return {
+      items,
+      total,
+      limit: limit ?? null,
+      offset,
+    };
+  }
+
+  /**
+   * The listing of findAll read row by row, for exports too large to hold in memory.
+   * Flavours are aggregated per coffee in SQL, so limit and offset count coffees.
+   */
+  streamAll(query: QueryCoffeesDto): Promise<Readable> {
+    const { limit, offset } = query;
+    const queryBuilder = this.createListQuery(query).select('coffee.id', 'id');
+    STREAMED_COLUMNS.forEach((column) =>
+      queryBuilder.addSelect(`coffee.${column}`, column),
+    );
+    queryBuilder
+      .addSelect(
+        (flavours) =>
+          flavours
+            .select(
+              `COALESCE(json_agg(json_build_object('id', flavour.id, 'name', flavour.name) ORDER BY flavour.id), '[]')`,
+            )
+            .from(Flavour, 'flavour')
+            .withDeleted() // Before the join, which would otherwise skip coffees in the trash
+            .innerJoin('flavour.coffees', 'flavoured')
+            .where('flavoured.id = coffee.id'),
+        'flavours',
+      )
+      .offset(offset)
+      .limit(limit);
+
+    return streamQuery(this.dataSource, queryBuilder);
+  }
+
+  async findOne(id: string) {
+    const coffee = await this.coffeeRepository.findOne({
       where: { id: +id },
       relations: {
         flavours: true,
@@ -53,73 +162,625 @@ export class CoffeesService {
     return coffee;
   }
 
+  async findTrash(
+    paginationQuery: PaginationQueryDto,
+  ): Promise<PaginatedResponseDto<Coffee>> {
+    const { limit, offset = 0 } = paginationQuery;
+    const [items, total] = await this.coffeeRepository.findAndCount({
+      where: { deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      relations: {
+        flavours: true,
+      },
+      order: {
+        deletedAt: SortOrder.Desc,
+        id: SortOrder.Asc,
+      },
+      skip: offset,
+      take: limit,
+    });
+
+    return {
+      items,
+      total,
+      limit: limit ?? null,
+      offset,
+    };
+  }
+
   async create(createCoffeeDto: CreateCoffeeDto) {
+    const savedCoffee = await this.dataSource.transaction((manager) =>
+      this.createWith(manager, createCoffeeDto),
+    );
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    return savedCoffee;
+  }
+
+  /**
+   * `ifMatch` is the request's If-Match header, checked against the coffee's version
+   */
+  async update(id: string, updateCoffeeDto: UpdateCoffeeDto, ifMatch?: string) {
+    const savedCoffee = await this.dataSource.transaction((manager) =>
+      this.updateWith(manager, id, updateCoffeeDto, ifMatch),
+    );
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    return savedCoffee;
+  }
+
+  async createMany({ items, partial }: BulkCreateCoffeesDto) {
+    const validated = await Promise.all(
+      items.map((item) => validateDto(CreateCoffeeDto, item)),
+    );
+    return this.runBulk(
+      validated,
+      partial,
+      HttpStatus.CREATED,
+      (manager, createCoffeeDto) => this.createWith(manager, createCoffeeDto),
+    );
+  }
+
+  /**
+   * Items with a version are only updated while the coffee is still at it, as with If-Match
+   */
+  async updateMany({ items, partial }: BulkUpdateCoffeesDto) {
+    const validated = await Promise.all(
+      items.map((item) => validateDto(BulkUpdateCoffeeDto, item)),
+    );
+    return this.runBulk(
+      validated,
+      partial,
+      HttpStatus.OK,
+      (manager, { id, version, ...updateCoffeeDto }) =>
+        this.updateWith(
+          manager,
+          String(id),
+          updateCoffeeDto,
+          version === undefined ? undefined : versionETag(version),
+        ),
+    );
+  }
+
+  async removeMany({ ids, partial }: BulkDeleteCoffeesDto) {
+    return this.runBulk(
+      ids.map((id) => ({ value: id, errors: [] })),
+      partial,
+      HttpStatus.OK,
+      (manager, id) => this.removeWith(manager, String(id)),
+    );
+  }
+
+  /**
+   * Creates or updates a coffee per row, matching existing ones by title and brand.
+   * Valid rows are written in one transaction, rejected rows are only reported.
+   */
+  async importCatalog(
+    body: unknown,
+    { dryRun = false }: ImportCoffeesQueryDto,
+  ): Promise<ImportReportDto> {
+    const validated = await Promise.all(
+      readCatalogRows(body).map((record) =>
+        validateDto(CreateCoffeeDto, record),
+      ),
+    );
+
+    const importRows = async (manager: EntityManager) => {
+      const existing = await this.findByCatalogKey(
+        manager,
+        validated.filter(({ value }) => value).map(({ value }) => value),
+      );
+      const firstRows = new Map<string, number>();
+      const rows: ImportRowReportDto[] = [];
+
+      for (const [index, { value, errors }] of validated.entries()) {
+        const row = index + 1;
+        if (!value) {
+          rows.push({ row, action: ImportAction.Reject, errors });
+          continue;
+        }
+        const key = catalogKey(value);
+        if (firstRows.has(key)) {
+          rows.push({
+            row,
+            action: ImportAction.Reject,
+            errors: [`Same title and brand as row ${firstRows.get(key)}`],
+          });
+          continue;
+        }
+        firstRows.set(key, row);
+
+        const matches = existing.get(key) ?? [];
+        if (matches.length > 1) {
+          rows.push({
+            row,
+            action: ImportAction.Reject,
+            errors: [
+              `Matches several coffees: ${matches
+                .map(({ id }) => id)
+                .join(', ')}`,
+            ],
+          });
+          continue;
+        }
+
+        const [match] = matches;
+        if (dryRun) {
+          rows.push(
+            match
+              ? { row, action: ImportAction.Update, coffeeId: match.id }
+              : { row, action: ImportAction.Create },
+          );
+          continue;
+        }
+        try {
+          // The version read above guards against edits made since, as If-Match would
+          const coffee = match
+            ? await this.updateWith(
+                manager,
+                String(match.id),
+                value,
+                versionETag(match.version),
+              )
+            : await this.createWith(manager, value);
+          rows.push({
+            row,
+            action: match ? ImportAction.Update : ImportAction.Create,
+            coffeeId: coffee.id,
+          });
+        } catch (err) {
+          if (err instanceof HttpException) {
+            throw new HttpException(
+              { message: `Row ${row}: ${err.message}`, row },
+              err.getStatus(),
+            );
+          }
+          throw err;
+        }
+      }
+      return rows;
+    };
+
+    const rows = dryRun
+      ? await importRows(this.dataSource.manager)
+      : await this.dataSource.transaction(importRows);
+    const count = (action: ImportAction) =>
+      rows.filter((row) => row.action === action).length;
+    const report = {
+      dryRun,
+      created: count(ImportAction.Create),
+      updated: count(ImportAction.Update),
+      rejected: count(ImportAction.Reject),
+      rows,
+    };
+
+    if (!dryRun && report.created + report.updated > 0) {
+      this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    }
+    return report;
+  }
+
+  findTop(paginationQuery: PaginationQueryDto) {
+    return this.coffeeRepository.find({
+      relations: {
+        flavours: true,
+      },
+      order: {
+        recommendations: SortOrder.Desc,
+        id: SortOrder.Asc,
+      },
+      skip: paginationQuery.offset,
+      take: paginationQuery.limit ?? DEFAULT_TOP_COFFEES_LIMIT,
+    });
+  }
+
+  async recommendCoffee(id: string, ifMatch?: string) {
+    const queryRunner = this.dataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+      await queryRunner.startTransaction();
+
+      await this.checkPrecondition(queryRunner.manager, id, ifMatch);
+      // Incrementing in SQL keeps concurrent recommendations from overwriting each other, and bumps the version
+      const { affected } = await queryRunner.manager.increment(
+        Coffee,
+        { id: +id, deletedAt: IsNull() },
+        'recommendations',
+        1,
+      );
+      if (!affected) {
+        throw new HttpException(`Coffee ${id} not found`, HttpStatus.NOT_FOUND);
+      }
+
+      await this.eventsService.record(
+        COFFEE_EVENT_TYPE,
+        CoffeeEventName.Recommended,
+        { coffeeId: +id },
+        queryRunner.manager,
+      );
+
+      const coffee = await queryRunner.manager.findOne(Coffee, {
+        where: { id: +id },
+        relations: {
+          flavours: true,
+        },
+      });
+
+      await queryRunner.commitTransaction();
+      this.responseCache.invalidate(COFFEES_CACHE_TAG);
+      this.recommendations.inc();
+      return coffee;
+    } catch (err) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      if (!(err instanceof HttpException)) {
+        this.logger.error(
+          `Failed to recommend coffee ${id}`,
+          err instanceof Error ? err.stack : String(err),
+        );
+      }
+      throw err;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async remove(id: string) {
+    const coffee = await this.dataSource.transaction((manager) =>
+      this.removeWith(manager, id),
+    );
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    return coffee;
+  }
+
+  async restore(id: string) {
+    await this.dataSource.transaction(async (manager) => {
+      const coffee = await manager.findOne(Coffee, {
+        where: { id: +id },
+        withDeleted: true,
+      });
+      if (!coffee?.deletedAt) {
+        throw new HttpException(
+          `Coffee ${id} is not in the trash`,
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      await manager.restore(Coffee, coffee.id);
+
+      await this.eventsService.record(
+        COFFEE_EVENT_TYPE,
+        CoffeeEventName.Restored,
+        { coffeeId: coffee.id },
+        manager,
+      );
+    });
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    return this.findOne(id);
+  }
+
+  /**
+   * Permanently deletes coffees that have been in the trash longer than the configured retention
+   */
+  async purge() {
+    const cutoff = new Date(
+      Date.now() - this.config.trashRetentionDays * 24 * 60 * 60 * 1000,
+    );
+    const { affected } = await this.coffeeRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"deletedAt" < :cutoff', { cutoff })
+      .execute();
+    const purged = affected ?? 0;
+
+    if (purged) {
+      this.responseCache.invalidate(COFFEES_CACHE_TAG);
+      await this.eventsService.record(
+        COFFEE_EVENT_TYPE,
+        CoffeeEventName.Purged,
+        { purged, deletedBefore: cutoff.toISOString() },
+      );
+    }
+    return { purged, deletedBefore: cutoff };
+  }
+
+  private createListQuery({
+    brand,
+    title,
+    flavours,
+    flavourMatch = FlavourMatch.Any,
+    sort = CoffeeSortField.Id,
+    order = SortOrder.Asc,
+    minRecommendations,
+    maxRecommendations,
+    includeDeleted,
+  }: QueryCoffeesDto) {
+    const queryBuilder = this.coffeeRepository.createQueryBuilder('coffee');
+
+    if (includeDeleted) {
+      queryBuilder.withDeleted();
+    }
+    if (brand !== undefined) {
+      queryBuilder.andWhere('coffee.brand = :brand', { brand });
+    }
+    if (title !== undefined) {
+      queryBuilder.andWhere('coffee.title ILIKE :title', {
+        title: `%${escapeLikePattern(title)}%`,
+      });
+    }
+    if (minRecommendations !== undefined) {
+      queryBuilder.andWhere('coffee.recommendations >= :minRecommendations', {
+        minRecommendations,
+      });
+    }
+    if (maxRecommendations !== undefined) {
+      queryBuilder.andWhere('coffee.recommendations <= :maxRecommendations', {
+        maxRecommendations,
+      });
+    }
+    if (flavours?.length) {
+      // Filter through a subquery so the joined flavours stay complete
+      const matchingCoffees = this.coffeeRepository
+        .createQueryBuilder('matched')
+        .withDeleted() // The outer query decides whether the trash is included
+        .select('matched.id')
+        .innerJoin('matched.flavours', 'matchedFlavour')
+        .where('matchedFlavour.name IN (:...flavours)')
+        .groupBy('matched.id');
+      if (flavourMatch === FlavourMatch.All) {
+        matchingCoffees.having(
+          'COUNT(DISTINCT matchedFlavour.name) = :flavourCount',
+        );
+      }
+      queryBuilder
+        .andWhere(`coffee.id IN (${matchingCoffees.getQuery()})`)
+        .setParameter('flavours', flavours)
+        .setParameter('flavourCount', new Set(flavours).size);
+    }
+
+    queryBuilder.orderBy(`coffee.${sort}`, order);
+    if (sort !== CoffeeSortField.Id) {
+      queryBuilder.addOrderBy('coffee.id', order);
+    }
+    return queryBuilder;
+  }
+
+  private async createWith(
+    manager: EntityManager,
+    createCoffeeDto: CreateCoffeeDto,
+  ) {
     const flavours = await Promise.all(
-      createCoffeeDto.flavours.map((name) => this.preloadFlavourByName(name)),
+      createCoffeeDto.flavours.map((name) =>
+        this.flavoursService.preloadByName(name, manager),
+      ),
     );
 
-    const coffee = this.coffeeRepository.create({
+    const coffee = manager.create(Coffee, {
       ...createCoffeeDto,
       flavours,
     });
-    return this.coffeeRepository.save(coffee);
+    const savedCoffee = await manager.save(coffee);
+
+    await this.eventsService.record(
+      COFFEE_EVENT_TYPE,
+      CoffeeEventName.Created,
+      {
+        coffeeId: savedCoffee.id,
+        title: savedCoffee.title,
+        brand: savedCoffee.brand,
+        flavours: createCoffeeDto.flavours,
+      },
+      manager,
+    );
+    return savedCoffee;
   }
 
-  async update(id: string, updateCoffeeDto: UpdateCoffeeDto) {
+  private async updateWith(
+    manager: EntityManager,
+    id: string,
+    updateCoffeeDto: UpdateCoffeeDto,
+    ifMatch: string | undefined,
+  ) {
     const flavours =
       updateCoffeeDto.flavours &&
       (await Promise.all(
-        updateCoffeeDto.flavours.map((name) => this.preloadFlavourByName(name)),
+        updateCoffeeDto.flavours.map((name) =>
+          this.flavoursService.preloadByName(name, manager),
+        ),
       ));
 
-    const coffee = await this.coffeeRepository.preload({
+    await this.checkPrecondition(manager, id, ifMatch);
+    const coffee = await manager.preload(Coffee, {
       id: +id,
       ...updateCoffeeDto,
       flavours,
     });
+    if (!coffee) {
+      throw new HttpException(`Coffee ${id} not found`, HttpStatus.NOT_FOUND);
+    }
+
+    const { version } = coffee;
+    const savedCoffee = await manager.save(coffee);
+    // Flavours live in the join table, and writing only them leaves the version alone
+    if (flavours && savedCoffee.version === version) {
+      await manager.increment(Coffee, { id: +id }, 'version', 1);
+      savedCoffee.version++;
+    }
+
+    await this.eventsService.record(
+      COFFEE_EVENT_TYPE,
+      CoffeeEventName.Updated,
+      {
+        coffeeId: savedCoffee.id,
+        changes: updateCoffeeDto,
+      },
+      manager,
+    );
+    return savedCoffee;
+  }
 
+  /**
+   * Moves the coffee to the trash, keeping its flavours so it can be restored as it was
+   */
+  private async removeWith(manager: EntityManager, id: string) {
+    const coffee = await manager.findOne(Coffee, {
+      where: { id: +id },
+      relations: {
+        flavours: true,
+      },
+    });
     if (!coffee) {
       throw new HttpException(`Coffee ${id} not found`, HttpStatus.NOT_FOUND);
     }
+    await manager.softDelete(Coffee, coffee.id);
 
-    return this.coffeeRepository.save(coffee);
+    await this.eventsService.record(
+      COFFEE_EVENT_TYPE,
+      CoffeeEventName.Deleted,
+      {
+        coffeeId: coffee.id,
+        title: coffee.title,
+        brand: coffee.brand,
+      },
+      manager,
+    );
+    return coffee;
   }
 
-  async recommendCoffee(coffee: Coffee) {
-    const queryRunner = this.dataSource.createQueryRunner();
+  private async findByCatalogKey(
+    manager: EntityManager,
+    coffees: CreateCoffeeDto[],
+  ) {
+    const byKey = new Map<string, Coffee[]>();
+    if (!coffees.length) {
+      return byKey;
+    }
 
-    await queryRunner.connect();
-    await queryRunner.startTransaction();
+    const titles = [
+      ...new Set(coffees.map(({ title }) => title.trim().toLowerCase())),
+    ];
+    const candidates = await manager
+      .createQueryBuilder(Coffee, 'coffee')
+      .where('LOWER(TRIM(coffee.title)) IN (:...titles)', { titles })
+      .orderBy('coffee.id', SortOrder.Asc)
+      .getMany();
+    candidates.forEach((coffee) => {
+      const key = catalogKey(coffee);
+      byKey.set(key, [...(byKey.get(key) ?? []), coffee]);
+    });
+    return byKey;
+  }
 
-    try {
-      coffee.recommendations++;
+  /**
+   * Applies every item in one transaction, or in partial mode each in its own,
+   * reporting how every item went instead of failing on the first one
+   */
+  private async runBulk<T, R>(
+    validated: ValidatedItem<T>[],
+    partial: boolean | undefined,
+    successStatus: HttpStatus,
+    apply: (manager: EntityManager, item: T) => Promise<R>,
+  ): Promise<BulkResponseDto<R>> {
+    if (!partial) {
+      const errors = validated.flatMap(({ errors }, index) =>
+        errors.map((error) => `items.${index}.${error}`),
+      );
+      if (errors.length) {
+        throw new HttpException({ message: errors }, HttpStatus.BAD_REQUEST);
+      }
 
-      const recommendEvent = new Event();
-      recommendEvent.name = 'recommend_coffee';
-      recommendEvent.type = 'coffee';
-      recommendEvent.payload = { coffeeId: coffee.id };
+      const results = await this.dataSource.transaction(async (manager) => {
+        const applied: R[] = [];
+        for (const [index, { value }] of validated.entries()) {
+          try {
+            applied.push(await apply(manager, value));
+          } catch (err) {
+            if (err instanceof HttpException) {
+              throw new HttpException(
+                { message: `Item ${index}: ${err.message}`, index },
+                err.getStatus(),
+              );
+            }
+            throw err;
+          }
+        }
+        return applied;
+      });
+      this.responseCache.invalidate(COFFEES_CACHE_TAG);
+      return {
+        succeeded: results.length,
+        failed: 0,
+        items: results.map((data, index) => ({
+          index,
+          status: successStatus,
+          data,
+        })),
+      };
+    }
 
-      await queryRunner.manager.save(coffee);
-      await queryRunner.manager.save(recommendEvent);
+    const items: BulkItemResultDto<R>[] = [];
+    for (const [index, { value, errors }] of validated.entries()) {
+      if (errors.length) {
+        items.push({ index, status: HttpStatus.BAD_REQUEST, error: errors });
+        continue;
+      }
+      try {
+        const data = await this.dataSource.transaction((manager) =>
+          apply(manager, value),
+        );
+        items.push({ index, status: successStatus, data });
+      } catch (err) {
+        const mapped =
+          err instanceof HttpException
+            ? { statusCode: err.getStatus(), message: err.message }
+            : mapDatabaseError(err);
+        if (!mapped) {
+          this.logger.error(err instanceof Error ? err.stack : String(err));
+        }
+        items.push({
+          index,
+          status: mapped?.statusCode ?? HttpStatus.INTERNAL_SERVER_ERROR,
+          error: mapped?.message ?? 'Internal server error',
+        });
+      }
+    }
 
-      await queryRunner.commitTransaction();
-    } catch (err) {
-      await queryRunner.rollbackTransaction();
-    } finally {
-      await queryRunner.release();
+    const succeeded = items.filter(({ error }) => error === undefined).length;
+    if (succeeded) {
+      this.responseCache.invalidate(COFFEES_CACHE_TAG);
     }
+    return { succeeded, failed: items.length - succeeded, items };
   }
 
-  async remove(id: string) {
-    const coffee = await this.findOne(id);
-    return this.coffeeRepository.remove(coffee);
-  }
+  /**
+   * Locks the coffee until the transaction ends, so no other write can slip in between the check and the caller's own
+   */
+  private async checkPrecondition(
+    manager: EntityManager,
+    id: string,
+    ifMatch: string | undefined,
+  ) {
+    if (ifMatch === undefined) {
+      if (this.config.requireIfMatch) {
+        throw new HttpException(
+          'This request requires an If-Match header',
+          HttpStatus.PRECONDITION_REQUIRED,
+        );
+      }
+      return;
+    }
 
-  private async preloadFlavourByName(name: string): Promise<Flavour> {
-    const flavour = await this.flavourRepository.findOne({ where: { name } });
-    if (flavour) {
-      return flavour;
+    const coffee = await manager.findOne(Coffee, {
+      where: { id: +id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!coffee) {
+      throw new HttpException(`Coffee ${id} not found`, HttpStatus.NOT_FOUND);
+    }
+    if (!matchesIfMatch(ifMatch, coffee.version)) {
+      throw new HttpException(
+        `Coffee ${id} has changed, it is at version ${coffee.version}`,
+        HttpStatus.PRECONDITION_FAILED,
+      );
     }
-    return this.flavourRepository.create({ name });
   }
 }
@@ -0,0 +1,21 @@
+import { versionETag } from '../../common/cache/etag';
+import { HttpCacheOptions } from '../../common/decorators/http-cache.decorator';
+
+// Tags the cached coffee responses, which embed flavour names too
+export const COFFEES_CACHE_TAG = 'coffees';
+
+// Clients revalidate with If-None-Match once max-age runs out, the server cache is dropped on every change
+export const COFFEES_LIST_CACHE: HttpCacheOptions = {
+  cacheControl: 'private, max-age=10',
+  ttlMs: 60000,
+  tags: [COFFEES_CACHE_TAG],
+  vary: ['Accept'], // Also served as CSV or NDJSON
+};
+export const COFFEE_CACHE: HttpCacheOptions = {
+  cacheControl: 'private, max-age=30',
+  // Clients send it back in If-Match, which only compares the coffee's version
+  etag: (coffee: { version: number }, apiVersion) =>
+    versionETag(coffee.version, apiVersion),
+  ttlMs: 60000,
+  tags: [COFFEES_CACHE_TAG],
+};
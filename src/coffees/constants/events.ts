@@ -0,0 +1,10 @@
+export const COFFEE_EVENT_TYPE = 'coffee';
+
+export enum CoffeeEventName {
+  Created = 'coffee_created',
+  Updated = 'coffee_updated',
+  Deleted = 'coffee_deleted',
+  Restored = 'coffee_restored',
+  Purged = 'coffees_purged',
+  Recommended = 'recommend_coffee',
+}
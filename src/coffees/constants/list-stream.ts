@@ -0,0 +1,24 @@
+import { ListStreamOptions } from '../../common/utils/list-format.util';
+import { FLAVOURS_DELIMITER } from '../catalog-import';
+import { toCoffeeV2 } from '../dto/coffee-v2.dto';
+import { Coffee } from '../entities/coffee.entity';
+
+// Flavours share a cell the way catalog imports expect them, so a CSV export can be imported back
+export const COFFEES_LIST_STREAM: ListStreamOptions<Coffee> = {
+  filename: 'coffees',
+  columns: {
+    id: (coffee) => coffee.id,
+    title: (coffee) => coffee.title,
+    description: (coffee) => coffee.description,
+    brand: (coffee) => coffee.brand,
+    recommendations: (coffee) => coffee.recommendations,
+    flavours: (coffee) =>
+      coffee.flavours.map((flavour) => flavour.name).join(FLAVOURS_DELIMITER),
+    version: (coffee) => coffee.version,
+    deletedAt: (coffee) => coffee.deletedAt,
+  },
+};
+export const COFFEES_V2_LIST_STREAM: ListStreamOptions<Coffee> = {
+  ...COFFEES_LIST_STREAM,
+  toJson: toCoffeeV2,
+};
@@ -0,0 +1,7 @@
+import { BulkItems, BulkRequestDto } from '../../common/dto/bulk-request.dto';
+import { CreateCoffeeDto } from './create-coffee.dto';
+
+export class BulkCreateCoffeesDto extends BulkRequestDto {
+  @BulkItems(CreateCoffeeDto)
+  readonly items: unknown[];
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayNotEmpty, IsInt } from 'class-validator';
+import {
+  BulkRequestDto,
+  MAX_BULK_ITEMS,
+} from '../../common/dto/bulk-request.dto';
+
+export class BulkDeleteCoffeesDto extends BulkRequestDto {
+  @ApiProperty({ type: [Number], maxItems: MAX_BULK_ITEMS })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BULK_ITEMS)
+  @IsInt({ each: true })
+  readonly ids: number[];
+}
@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { BulkItems, BulkRequestDto } from '../../common/dto/bulk-request.dto';
+import { UpdateCoffeeDto } from './update-coffee.dto';
+
+export class BulkUpdateCoffeeDto extends UpdateCoffeeDto {
+  @ApiProperty()
+  @IsInt()
+  readonly id: number;
+
+  @ApiPropertyOptional({
+    description: 'Only update the coffee while it is at this version.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readonly version?: number;
+}
+
+export class BulkUpdateCoffeesDto extends BulkRequestDto {
+  @BulkItems(BulkUpdateCoffeeDto)
+  readonly items: unknown[];
+}
@@ -0,0 +1,35 @@
+import { Coffee } from '../entities/coffee.entity';
+
+/**
+ * How v2 of the API represents a coffee, with flavours flattened to their names
+ */
+export class CoffeeV2Dto {
+  readonly id: number;
+  readonly title: string;
+  readonly description: string | null;
+  readonly brand: string;
+  readonly recommendations: number;
+  readonly flavours: string[];
+  readonly version: number;
+  readonly deletedAt: Date | null;
+}
+
+export const toCoffeeV2 = ({
+  id,
+  title,
+  description,
+  brand,
+  recommendations,
+  flavours = [],
+  version,
+  deletedAt,
+}: Coffee): CoffeeV2Dto => ({
+  id,
+  title,
+  description: description ?? null,
+  brand,
+  recommendations,
+  flavours: flavours.map((flavour) => flavour.name),
+  version,
+  deletedAt: deletedAt ?? null,
+});
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from '../../common/utils/transform.util';
+
+export class ImportCoffeesQueryDto {
+  @ApiPropertyOptional({
+    description: 'Report what the import would do without writing anything.',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  readonly dryRun?: boolean;
+}
@@ -0,0 +1,20 @@
+export enum ImportAction {
+  Create = 'create',
+  Update = 'update',
+  Reject = 'reject',
+}
+
+export class ImportRowReportDto {
+  readonly row: number; // From 1, not counting the CSV header
+  readonly action: ImportAction;
+  readonly coffeeId?: number;
+  readonly errors?: string[];
+}
+
+export class ImportReportDto {
+  readonly dryRun: boolean;
+  readonly created: number;
+  readonly updated: number;
+  readonly rejected: number;
+  readonly rows: ImportRowReportDto[];
+}
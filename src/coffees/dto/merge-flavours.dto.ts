@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsInt } from 'class-validator';
+
+export class MergeFlavoursDto {
+  @ApiProperty({
+    description: 'Flavours to fold into the target and then delete.',
+    type: [Number],
+  })
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  readonly sourceIds: number[];
+}
@@ -0,0 +1,125 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+  Validate,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
+} from 'class-validator';
+import { SortOrder } from '../../common/constants/SortOrder';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { toBoolean } from '../../common/utils/transform.util';
+
+export enum CoffeeSortField {
+  Id = 'id',
+  Title = 'title',
+  Brand = 'brand',
+  Recommendations = 'recommendations',
+}
+
+export enum FlavourMatch {
+  Any = 'any',
+  All = 'all',
+}
+
+@ValidatorConstraint({ name: 'recommendationsRange' })
+class RecommendationsRangeConstraint implements ValidatorConstraintInterface {
+  validate(maxRecommendations: number, args: ValidationArguments) {
+    const { minRecommendations } = args.object as QueryCoffeesDto;
+    return (
+      minRecommendations === undefined ||
+      maxRecommendations === undefined ||
+      minRecommendations <= maxRecommendations
+    );
+  }
+
+  defaultMessage() {
+    return 'maxRecommendations must not be less than minRecommendations';
+  }
+}
+
+// Query strings arrive as either ?flavours=a&flavours=b or ?flavours=a,b
+const toStringArray = ({ value }: { value: unknown }) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => String(entry).split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+export class QueryCoffeesDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Only coffees of this exact brand.' })
+  @IsOptional()
+  @IsString()
+  readonly brand?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only coffees whose title contains this text.',
+  })
+  @IsOptional()
+  @IsString()
+  readonly title?: string;
+
+  @ApiPropertyOptional({
+    description: 'Flavour names, repeated or comma separated.',
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  readonly flavours?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether a coffee needs any or all of the given flavours.',
+    enum: FlavourMatch,
+    default: FlavourMatch.Any,
+  })
+  @IsOptional()
+  @IsEnum(FlavourMatch)
+  readonly flavourMatch?: FlavourMatch;
+
+  @ApiPropertyOptional({
+    enum: CoffeeSortField,
+    default: CoffeeSortField.Id,
+  })
+  @IsOptional()
+  @IsEnum(CoffeeSortField)
+  readonly sort?: CoffeeSortField;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.Asc })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(SortOrder)
+  readonly order?: SortOrder;
+
+  @ApiPropertyOptional({ minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  readonly minRecommendations?: number;
+
+  @ApiPropertyOptional({ minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Validate(RecommendationsRangeConstraint)
+  readonly maxRecommendations?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Also list coffees in the trash. Needs an API key with the coffees:write scope.',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  readonly includeDeleted?: boolean;
+}
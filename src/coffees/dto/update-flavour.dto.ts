@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UpdateFlavourDto {
+  @ApiProperty({ description: 'The new name of the flavour.' })
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+}
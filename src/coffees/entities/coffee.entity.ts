@@ -1,9 +1,11 @@
 import {
   Column,
+  DeleteDateColumn,
   Entity,
   JoinTable,
   ManyToMany,
   PrimaryGeneratedColumn,
+  VersionColumn,
 } from 'typeorm';
 import { Flavour } from './flavour.entity';
 
@@ -24,6 +26,14 @@ export class Coffee {
   @Column({ default: 0 })
   recommendations: number;
 
+  // Bumped on every write, and served as the ETag that If-Match is checked against
+  @VersionColumn()
+  version: number;
+
+  // Set while the coffee is in the trash, which reads leave out unless asked
+  @DeleteDateColumn({ type: 'timestamptz' })
+  deletedAt: Date | null;
+
   @JoinTable()
   @ManyToMany((type) => Flavour, (flavour) => flavour.coffees, {
     cascade: true,
@@ -9,6 +9,10 @@ export class Flavour {
   @Column()
   name: string;
 
+  // Lowercased name, so "vanilla" and "Vanilla " can only exist once
+  @Column({ unique: true })
+  normalizedName: string;
+
   @ManyToMany((type) => Coffee, (coffee) => coffee.flavours)
   coffees: Coffee[];
 }
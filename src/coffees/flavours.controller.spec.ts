@@ -0,0 +1,32 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FlavoursController } from './flavours.controller';
+import { FlavoursService } from './flavours.service';
+
+describe('FlavoursController', () => {
+  let controller: FlavoursController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FlavoursController],
+      providers: [
+        {
+          provide: FlavoursService,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn(),
+            rename: jest.fn(),
+            merge: jest.fn(),
+            remove: jest.fn(),
+            removeUnused: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<FlavoursController>(FlavoursController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
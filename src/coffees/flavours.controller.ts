@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Public } from '../common/decorators/public.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { MergeFlavoursDto } from './dto/merge-flavours.dto';
+import { UpdateFlavourDto } from './dto/update-flavour.dto';
+import { FlavoursService } from './flavours.service';
+
+@ApiTags('flavours')
+@Controller('flavours')
+export class FlavoursController {
+  constructor(private readonly flavoursService: FlavoursService) {}
+
+  @Public()
+  @Get()
+  findAll(@Query() paginationQuery: PaginationQueryDto) {
+    return this.flavoursService.findAll(paginationQuery);
+  }
+
+  @Public()
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.flavoursService.findOne(id);
+  }
+
+  @RequireScopes('coffees:write')
+  @Patch(':id')
+  rename(@Param('id') id: string, @Body() body: UpdateFlavourDto) {
+    return this.flavoursService.rename(id, body);
+  }
+
+  @RequireScopes('coffees:write')
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  merge(@Param('id') id: string, @Body() body: MergeFlavoursDto) {
+    return this.flavoursService.merge(id, body);
+  }
+
+  @RequireScopes('coffees:write')
+  @Delete('unused')
+  removeUnused() {
+    return this.flavoursService.removeUnused();
+  }
+
+  @RequireScopes('coffees:write')
+  @Delete(':id')
+  delete(@Param('id') id: string) {
+    return this.flavoursService.remove(id);
+  }
+}
@@ -0,0 +1,271 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, EntityManager } from 'typeorm';
+import { ResponseCache } from '../common/cache/response-cache';
+import {
+  createMockQueryBuilder,
+  createMockRepositoryProvider,
+  MockQueryBuilder,
+  MockRepository,
+} from '../common/test/mock-repository';
+import { Flavour } from './entities/flavour.entity';
+import { FlavoursService, normalizeFlavourName } from './flavours.service';
+
+describe('FlavoursService', () => {
+  let service: FlavoursService;
+  let flavourRepository: MockRepository;
+  let queryBuilder: MockQueryBuilder;
+  let manager: {
+    query: jest.Mock;
+    delete: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  const vanilla = {
+    id: 1,
+    name: 'Vanilla',
+    normalizedName: 'vanilla',
+    coffeeCount: 2,
+  };
+
+  let responseCache: { invalidate: jest.Mock };
+  let dataSource: { query: jest.Mock; transaction: jest.Mock };
+
+  beforeEach(async () => {
+    manager = {
+      query: jest.fn(),
+      delete: jest.fn(),
+      save: jest.fn(),
+      findOne: jest.fn(),
+      createQueryBuilder: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FlavoursService,
+        createMockRepositoryProvider(Flavour),
+        { provide: ResponseCache, useValue: { invalidate: jest.fn() } },
+        {
+          provide: DataSource,
+          useValue: {
+            query: jest.fn(),
+            transaction: jest.fn((work) => work(manager)),
+            getMetadata: () => ({
+              findRelationWithPropertyPath: () => ({
+                junctionEntityMetadata: {
+                  tableName: 'coffee_flavours_flavour',
+                  ownerColumns: [{ databaseName: 'coffeeId' }],
+                  inverseColumns: [{ databaseName: 'flavourId' }],
+                },
+              }),
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FlavoursService>(FlavoursService);
+    responseCache = module.get(ResponseCache);
+    dataSource = module.get(DataSource);
+    flavourRepository = module.get<MockRepository>(getRepositoryToken(Flavour));
+    queryBuilder = createMockQueryBuilder();
+    flavourRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('normalizeFlavourName', () => {
+    it('should trim, collapse whitespace and lowercase the key', () => {
+      expect(normalizeFlavourName('  Dark   Chocolate ')).toEqual({
+        name: 'Dark Chocolate',
+        normalizedName: 'dark chocolate',
+      });
+    });
+  });
+
+  describe('findAll', () => {
+    describe('when flavours exist', () => {
+      it('should return them with coffee counts and the total', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[vanilla], 1]);
+        expect(await service.findAll({ limit: 5 })).toEqual({
+          items: [vanilla],
+          total: 1,
+          limit: 5,
+          offset: 0,
+        });
+        expect(queryBuilder.loadRelationCountAndMap).toBeCalledWith(
+          'flavour.coffeeCount',
+          'flavour.coffees',
+          'coffee',
+          expect.any(Function),
+        );
+      });
+      it('should count trashed coffees too', async () => {
+        queryBuilder.getManyAndCount.mockResolvedValue([[vanilla], 1]);
+        await service.findAll({});
+        const [, , , countQuery] =
+          queryBuilder.loadRelationCountAndMap.mock.calls[0];
+        const countQueryBuilder = createMockQueryBuilder();
+        countQuery(countQueryBuilder);
+        expect(countQueryBuilder.withDeleted).toBeCalled();
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    describe('when no flavour exists for a ID', () => {
+      it('should throw', async () => {
+        queryBuilder.getOne.mockResolvedValue(null);
+        await expect(service.findOne('1')).rejects.toThrow(
+          new HttpException('Flavour 1 not found', HttpStatus.NOT_FOUND),
+        );
+      });
+    });
+  });
+
+  describe('preloadByName', () => {
+    describe('when called with an unnormalized name', () => {
+      it('should insert if missing and look up by the normalized name, through the given manager', async () => {
+        const insertBuilder = {
+          into: jest.fn().mockReturnThis(),
+          values: jest.fn().mockReturnThis(),
+          orIgnore: jest.fn().mockReturnThis(),
+          execute: jest.fn(),
+        };
+        queryBuilder.insert.mockReturnValue(insertBuilder);
+        manager.createQueryBuilder.mockReturnValue(queryBuilder);
+        manager.findOne.mockResolvedValue(vanilla);
+
+        expect(
+          await service.preloadByName(
+            'vanilla ',
+            manager as unknown as EntityManager,
+          ),
+        ).toEqual(vanilla);
+        expect(insertBuilder.into).toBeCalledWith(Flavour);
+        expect(insertBuilder.values).toBeCalledWith({
+          name: 'vanilla',
+          normalizedName: 'vanilla',
+        });
+        expect(insertBuilder.orIgnore).toBeCalled();
+        expect(manager.findOne).toBeCalledWith(Flavour, {
+          where: { normalizedName: 'vanilla' },
+        });
+      });
+    });
+  });
+
+  describe('rename', () => {
+    beforeEach(() => {
+      queryBuilder.getOne.mockResolvedValue(vanilla);
+    });
+
+    describe('when the name is free', () => {
+      it('should save the normalized name and bump its coffees in one transaction', async () => {
+        flavourRepository.findOne.mockResolvedValue(null);
+        manager.save.mockImplementation((entity, flavour) => flavour);
+        expect(await service.rename('1', { name: ' French  Vanilla' })).toEqual(
+          {
+            ...vanilla,
+            name: 'French Vanilla',
+            normalizedName: 'french vanilla',
+          },
+        );
+        expect(dataSource.transaction).toBeCalled();
+        expect(manager.query).toBeCalledWith(
+          expect.stringContaining('SET "version" = "version" + 1'),
+          [[1]],
+        );
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+    });
+    describe('when another flavour has the name', () => {
+      it('should throw a conflict', async () => {
+        flavourRepository.findOne.mockResolvedValue({ id: 2, name: 'Mocha' });
+        try {
+          await service.rename('1', { name: 'mocha' });
+          expect(false);
+        } catch (e) {
+          expect(e).toBeInstanceOf(HttpException);
+          expect(e.getStatus()).toEqual(HttpStatus.CONFLICT);
+        }
+        expect(manager.save).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('remove', () => {
+    describe('when the flavour is unused', () => {
+      it('should delete it', async () => {
+        queryBuilder.getOne.mockResolvedValue({ ...vanilla, coffeeCount: 0 });
+        await service.remove('1');
+        expect(flavourRepository.delete).toBeCalledWith(1);
+      });
+    });
+    describe('when coffees still use the flavour', () => {
+      it('should throw a conflict', async () => {
+        queryBuilder.getOne.mockResolvedValue(vanilla);
+        await expect(service.remove('1')).rejects.toThrow(
+          new HttpException(
+            'Flavour 1 is still used by 2 coffees',
+            HttpStatus.CONFLICT,
+          ),
+        );
+        expect(flavourRepository.delete).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('removeUnused', () => {
+    it('should delete flavours missing from the join table', async () => {
+      queryBuilder.delete.mockReturnValue(queryBuilder);
+      queryBuilder.execute.mockResolvedValue({ affected: 3 });
+      expect(await service.removeUnused()).toEqual({ removed: 3 });
+      expect(queryBuilder.where).toBeCalledWith(
+        'id NOT IN (SELECT "flavourId" FROM "coffee_flavours_flavour")',
+      );
+    });
+  });
+
+  describe('merge', () => {
+    beforeEach(() => {
+      queryBuilder.getOne.mockResolvedValue(vanilla);
+    });
+
+    describe('when every source exists', () => {
+      it('should re-point coffees and delete the sources in a transaction', async () => {
+        flavourRepository.find.mockResolvedValue([{ id: 2 }, { id: 3 }]);
+        expect(await service.merge('1', { sourceIds: [2, 3, 3, 1] })).toEqual(
+          vanilla,
+        );
+        expect(manager.query).toBeCalledWith(
+          expect.stringContaining('ON CONFLICT DO NOTHING'),
+          [1, [2, 3]],
+        );
+        expect(manager.query).toBeCalledWith(
+          expect.stringContaining('SET "version" = "version" + 1'),
+          [[2, 3]],
+        );
+        expect(manager.query).toBeCalledWith(
+          'DELETE FROM "coffee_flavours_flavour" WHERE "flavourId" = ANY($1)',
+          [[2, 3]],
+        );
+        expect(manager.delete).toBeCalledWith(Flavour, [2, 3]);
+        expect(responseCache.invalidate).toBeCalledWith('coffees');
+      });
+    });
+    describe('when a source does not exist', () => {
+      it('should throw without touching the database', async () => {
+        flavourRepository.find.mockResolvedValue([{ id: 2 }]);
+        await expect(service.merge('1', { sourceIds: [2, 3] })).rejects.toThrow(
+          new HttpException('Flavours 3 not found', HttpStatus.NOT_FOUND),
+        );
+        expect(manager.query).not.toBeCalled();
+      });
+    });
+  });
+});
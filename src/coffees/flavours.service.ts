@@ -0,0 +1,210 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { ResponseCache } from '../common/cache/response-cache';
+import { COFFEES_CACHE_TAG } from './constants/cache';
+import { MergeFlavoursDto } from './dto/merge-flavours.dto';
+import { UpdateFlavourDto } from './dto/update-flavour.dto';
+import { Coffee } from './entities/coffee.entity';
+import { Flavour } from './entities/flavour.entity';
+
+export type FlavourWithCoffeeCount = Flavour & { coffeeCount: number };
+
+export const normalizeFlavourName = (name: string) => {
+  const displayName = name.trim().replace(/\s+/g, ' ');
+  return { name: displayName, normalizedName: displayName.toLowerCase() };
+};
+
+@Injectable()
+export class FlavoursService {
+  constructor(
+    @InjectRepository(Flavour)
+    private readonly flavourRepository: Repository<Flavour>,
+    private readonly dataSource: DataSource,
+    private readonly responseCache: ResponseCache,
+  ) {}
+
+  async findAll(
+    paginationQuery: PaginationQueryDto,
+  ): Promise<PaginatedResponseDto<FlavourWithCoffeeCount>> {
+    const { limit, offset = 0 } = paginationQuery;
+    const [items, total] = await this.createCountingQueryBuilder()
+      .orderBy('flavour.normalizedName', 'ASC')
+      .skip(offset)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: items as FlavourWithCoffeeCount[],
+      total,
+      limit: limit ?? null,
+      offset,
+    };
+  }
+
+  async findOne(id: string): Promise<FlavourWithCoffeeCount> {
+    const flavour = await this.createCountingQueryBuilder()
+      .where('flavour.id = :id', { id: +id })
+      .getOne();
+    if (!flavour) {
+      throw new HttpException(`Flavour ${id} not found`, HttpStatus.NOT_FOUND);
+    }
+    return flavour as FlavourWithCoffeeCount;
+  }
+
+  /**
+   * Finds the flavour by its normalized name, creating it if needed.
+   * Concurrent callers with the same name all end up with the same row.
+   */
+  async preloadByName(
+    name: string,
+    manager: EntityManager = this.flavourRepository.manager,
+  ): Promise<Flavour> {
+    const normalized = normalizeFlavourName(name);
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(Flavour)
+      .values(normalized)
+      .orIgnore()
+      .execute();
+    return manager.findOne(Flavour, {
+      where: { normalizedName: normalized.normalizedName },
+    });
+  }
+
+  async rename(id: string, updateFlavourDto: UpdateFlavourDto) {
+    const flavour = await this.findOne(id);
+    const normalized = normalizeFlavourName(updateFlavourDto.name);
+
+    const existing = await this.flavourRepository.findOne({
+      where: { normalizedName: normalized.normalizedName },
+    });
+    if (existing && existing.id !== flavour.id) {
+      throw new HttpException(
+        `Flavour ${existing.id} is already named ${existing.name}, merge into it instead`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const renamed = await this.dataSource.transaction(async (manager) => {
+      const saved = await manager.save(Flavour, { ...flavour, ...normalized });
+      await this.bumpCoffeeVersions(manager, [flavour.id]);
+      return saved;
+    });
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+    return renamed;
+  }
+
+  async remove(id: string) {
+    const flavour = await this.findOne(id);
+    if (flavour.coffeeCount > 0) {
+      throw new HttpException(
+        `Flavour ${id} is still used by ${flavour.coffeeCount} coffees`,
+        HttpStatus.CONFLICT,
+      );
+    }
+    await this.flavourRepository.delete(flavour.id);
+    return flavour;
+  }
+
+  /**
+   * Deletes every flavour no coffee refers to any more, returning how many were removed
+   */
+  async removeUnused() {
+    const { junction, flavourColumn } = this.getCoffeeFlavoursJunction();
+    const { affected } = await this.flavourRepository
+      .createQueryBuilder()
+      .delete()
+      .where(`id NOT IN (SELECT "${flavourColumn}" FROM "${junction}")`)
+      .execute();
+    return { removed: affected ?? 0 };
+  }
+
+  /**
+   * Re-points every coffee of the source flavours at the target, then deletes the sources
+   */
+  async merge(targetId: string, { sourceIds }: MergeFlavoursDto) {
+    const target = await this.findOne(targetId);
+    const ids = [...new Set(sourceIds)].filter((id) => id !== target.id);
+    if (!ids.length) {
+      return target;
+    }
+
+    const sources = await this.flavourRepository.find({
+      where: { id: In(ids) },
+    });
+    if (sources.length !== ids.length) {
+      const found = sources.map(({ id }) => id);
+      const missing = ids.filter((id) => !found.includes(id));
+      throw new HttpException(
+        `Flavours ${missing.join(', ')} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const { junction, coffeeColumn, flavourColumn } =
+      this.getCoffeeFlavoursJunction();
+    await this.dataSource.transaction(async (manager) => {
+      await manager.query(
+        `INSERT INTO "${junction}" ("${coffeeColumn}", "${flavourColumn}")
+         SELECT DISTINCT "${coffeeColumn}", $1 FROM "${junction}"
+         WHERE "${flavourColumn}" = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [target.id, ids],
+      );
+      await this.bumpCoffeeVersions(manager, ids);
+      await manager.query(
+        `DELETE FROM "${junction}" WHERE "${flavourColumn}" = ANY($1)`,
+        [ids],
+      );
+      await manager.delete(Flavour, ids);
+    });
+    this.responseCache.invalidate(COFFEES_CACHE_TAG);
+
+    return this.findOne(targetId);
+  }
+
+  /**
+   * Coffees embed their flavour names, so they change version along with them
+   */
+  private async bumpCoffeeVersions(
+    manager: EntityManager,
+    flavourIds: number[],
+  ) {
+    const { junction, coffeeColumn, flavourColumn } =
+      this.getCoffeeFlavoursJunction();
+    await manager.query(
+      `UPDATE "coffee" SET "version" = "version" + 1
+       WHERE "id" IN (SELECT "${coffeeColumn}" FROM "${junction}" WHERE "${flavourColumn}" = ANY($1))`,
+      [flavourIds],
+    );
+  }
+
+  /**
+   * Counts trashed coffees too, they keep their flavours and can be restored
+   */
+  private createCountingQueryBuilder() {
+    return this.flavourRepository
+      .createQueryBuilder('flavour')
+      .loadRelationCountAndMap(
+        'flavour.coffeeCount',
+        'flavour.coffees',
+        'coffee',
+        (queryBuilder) => queryBuilder.withDeleted(),
+      );
+  }
+
+  private getCoffeeFlavoursJunction() {
+    const { junctionEntityMetadata } = this.dataSource
+      .getMetadata(Coffee)
+      .findRelationWithPropertyPath('flavours');
+    return {
+      junction: junctionEntityMetadata.tableName,
+      coffeeColumn: junctionEntityMetadata.ownerColumns[0].databaseName,
+      flavourColumn: junctionEntityMetadata.inverseColumns[0].databaseName,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { IncludeDeletedGuard } from './include-deleted.guard';
+
+describe('IncludeDeletedGuard', () => {
+  const guard = new IncludeDeletedGuard();
+
+  const contextFor = (request: Record<string, any>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext);
+
+  it('should allow listings without the trash', () => {
+    expect(guard.canActivate(contextFor({ query: {} }))).toBe(true);
+  });
+
+  it('should require an API key for the trash', () => {
+    expect(() =>
+      guard.canActivate(contextFor({ query: { includeDeleted: 'true' } })),
+    ).toThrow(new HttpException('Missing API key', HttpStatus.UNAUTHORIZED));
+  });
+
+  it('should require the coffees:write scope for the trash', () => {
+    expect(() =>
+      guard.canActivate(
+        contextFor({
+          query: { includeDeleted: 'true' },
+          apiKey: { scopes: ['coffees:read'] },
+        }),
+      ),
+    ).toThrow(
+      new HttpException('Missing scopes: coffees:write', HttpStatus.FORBIDDEN),
+    );
+  });
+
+  it('should show the trash to writers', () => {
+    expect(
+      guard.canActivate(
+        contextFor({
+          query: { includeDeleted: 'true' },
+          apiKey: { scopes: ['coffees:write'] },
+        }),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { ApiKeyIdentity } from '../../api-keys/interfaces/api-key-identity.interface';
+import { findMissingScopes } from '../../common/guards/scopes.guard';
+
+const INCLUDE_DELETED_SCOPES = ['coffees:write'];
+
+/**
+ * Lets public coffee listings show the trash only to callers who could restore it.
+ * A guard rather than a check in the handler, so cached listings are covered too.
+ */
+@Injectable()
+export class IncludeDeletedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<{
+      query: Record<string, unknown>;
+      apiKey?: ApiKeyIdentity;
+    }>();
+    if (request.query?.includeDeleted !== 'true') {
+      return true;
+    }
+
+    if (!request.apiKey) {
+      throw new HttpException('Missing API key', HttpStatus.UNAUTHORIZED);
+    }
+    const missingScopes = findMissingScopes(
+      request.apiKey,
+      INCLUDE_DELETED_SCOPES,
+    );
+    if (missingScopes.length) {
+      throw new HttpException(
+        `Missing scopes: ${missingScopes.join(', ')}`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  createETag,
+  matchesIfMatch,
+  matchesIfNoneMatch,
+  versionETag,
+} from './etag';
+
+describe('createETag', () => {
+  it('should be a quoted strong validator', () => {
+    expect(createETag({ id: 1 })).toMatch(/^"[\w-]+"$/);
+  });
+  it('should only change with the payload', () => {
+    expect(createETag({ id: 1 })).toBe(createETag({ id: 1 }));
+    expect(createETag({ id: 1 })).not.toBe(createETag({ id: 2 }));
+  });
+});
+
+describe('matchesIfNoneMatch', () => {
+  const etag = '"abc"';
+
+  it('should match the same tag in a list', () => {
+    expect(matchesIfNoneMatch('"xyz", "abc"', etag)).toBe(true);
+  });
+  it('should compare weakly', () => {
+    expect(matchesIfNoneMatch('W/"abc"', etag)).toBe(true);
+  });
+  it('should match any tag for *', () => {
+    expect(matchesIfNoneMatch('*', etag)).toBe(true);
+  });
+  it('should not match other tags or a missing header', () => {
+    expect(matchesIfNoneMatch('"xyz"', etag)).toBe(false);
+    expect(matchesIfNoneMatch(undefined, etag)).toBe(false);
+  });
+});
+
+describe('versionETag', () => {
+  it('should quote the version', () => {
+    expect(versionETag(3)).toBe('"3"');
+  });
+  it('should name the API version when given', () => {
+    expect(versionETag(3, '2')).toBe('"2.3"');
+  });
+});
+
+describe('matchesIfMatch', () => {
+  it('should match the same version in a list', () => {
+    expect(matchesIfMatch('"2", "3"', 3)).toBe(true);
+  });
+  it('should match the tag of any API version', () => {
+    expect(matchesIfMatch('"1.3"', 3)).toBe(true);
+    expect(matchesIfMatch('"2.3"', 3)).toBe(true);
+  });
+  it('should compare strongly', () => {
+    expect(matchesIfMatch('W/"3"', 3)).toBe(false);
+  });
+  it('should match any tag for *', () => {
+    expect(matchesIfMatch('*', 3)).toBe(true);
+  });
+  it('should not match other versions or tags', () => {
+    expect(matchesIfMatch('"2.2"', 3)).toBe(false);
+    expect(matchesIfMatch('"13"', 3)).toBe(false);
+    expect(matchesIfMatch('"abc"', 3)).toBe(false);
+  });
+});
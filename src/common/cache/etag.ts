@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+
+/**
+ * A strong validator: byte-identical payloads get the same tag
+ */
+export const createETag = (payload: unknown) =>
+  `"${createHash('sha1').update(JSON.stringify(payload)).digest('base64url')}"`;
+
+/**
+ * For resources with a version column, so If-Match can be checked in the same transaction as the write.
+ * Served tags name the API version too, as each version sends a different payload.
+ */
+export const versionETag = (version: number, apiVersion?: string) =>
+  apiVersion === undefined ? `"${version}"` : `"${apiVersion}.${version}"`;
+
+const VERSION_ETAG = /^"(?:[^".]+\.)?(\d+)"$/;
+
+const etagList = (header: string) =>
+  header.split(',').map((etag) => etag.trim());
+
+// If-None-Match uses the weak comparison, so W/"x" matches "x"
+const opaqueTag = (etag: string) => etag.replace(/^W\//, '');
+
+export const matchesIfNoneMatch = (
+  ifNoneMatch: string | undefined,
+  etag: string,
+) =>
+  !!ifNoneMatch &&
+  (ifNoneMatch.trim() === '*' ||
+    etagList(ifNoneMatch).some(
+      (candidate) => opaqueTag(candidate) === opaqueTag(etag),
+    ));
+
+/**
+ * If-Match for a resource tagged by versionETag. A tag from any API version matches, the write
+ * only depends on the resource being at that version. Weak tags never match, as the comparison is strong.
+ */
+export const matchesIfMatch = (ifMatch: string, version: number) =>
+  ifMatch.trim() === '*' ||
+  etagList(ifMatch).some(
+    (candidate) => VERSION_ETAG.exec(candidate)?.[1] === String(version),
+  );
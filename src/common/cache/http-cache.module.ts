@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import httpCacheConfig from '../../config/http-cache.config';
+import { HttpCacheInterceptor } from '../interceptors/http-cache.interceptor';
+import { ResponseCache } from './response-cache';
+
+// Imported by modules whose controllers use @HttpCache, and whose services invalidate it
+@Module({
+  imports: [ConfigModule.forFeature(httpCacheConfig)],
+  providers: [ResponseCache, HttpCacheInterceptor],
+  exports: [ResponseCache, HttpCacheInterceptor],
+})
+export class HttpCacheModule {}
@@ -0,0 +1,59 @@
+import { ResponseCache } from './response-cache';
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+  let now: jest.SpyInstance;
+
+  const response = { etag: '"abc"', payload: { id: 1 } };
+  const options = (overrides = {}) => ({
+    ttlMs: 1000,
+    tags: ['coffees'],
+    generation: cache.generation,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    cache = new ResponseCache({ enabled: true, maxEntries: 2 });
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should return entries until they expire', () => {
+    cache.set('1:/coffees/1', response, options());
+    expect(cache.get('1:/coffees/1')).toMatchObject(response);
+    now.mockReturnValue(1000);
+    expect(cache.get('1:/coffees/1')).toBeUndefined();
+  });
+
+  it('should drop every entry with an invalidated tag', () => {
+    cache.set('1:/coffees/1', response, options());
+    cache.set('1:/flavours', response, options({ tags: ['flavours'] }));
+    cache.invalidate('coffees');
+    expect(cache.get('1:/coffees/1')).toBeUndefined();
+    expect(cache.get('1:/flavours')).toBeDefined();
+  });
+
+  it('should not keep a payload loaded before an invalidation', () => {
+    const generation = cache.generation;
+    cache.invalidate('coffees');
+    cache.set('1:/coffees/1', response, options({ generation }));
+    expect(cache.get('1:/coffees/1')).toBeUndefined();
+  });
+
+  it('should evict the oldest entry once full', () => {
+    cache.set('1:/coffees/1', response, options());
+    cache.set('1:/coffees/2', response, options());
+    cache.set('1:/coffees/3', response, options());
+    expect(cache.get('1:/coffees/1')).toBeUndefined();
+    expect(cache.get('1:/coffees/3')).toBeDefined();
+  });
+
+  it('should store nothing when disabled', () => {
+    cache = new ResponseCache({ enabled: false, maxEntries: 2 });
+    cache.set('1:/coffees/1', response, options());
+    expect(cache.get('1:/coffees/1')).toBeUndefined();
+  });
+});
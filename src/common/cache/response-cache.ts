@@ -0,0 +1,81 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import httpCacheConfig from '../../config/http-cache.config';
+
+export interface CachedResponse {
+  etag: string;
+  payload: unknown;
+}
+
+interface CacheOptions {
+  ttlMs: number;
+  tags: string[];
+  generation: number; // Read before loading the payload, see `generation`
+}
+
+interface CacheEntry extends CachedResponse {
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * Payloads of GET routes marked with @HttpCache, dropped by tag when the data behind them changes
+ */
+@Injectable()
+export class ResponseCache {
+  // Map keeps insertion order, so the first key is the oldest entry
+  private readonly entries = new Map<string, CacheEntry>();
+  private invalidations = 0;
+
+  constructor(
+    @Inject(httpCacheConfig.KEY)
+    private readonly config: ConfigType<typeof httpCacheConfig>,
+  ) {}
+
+  get enabled() {
+    return this.config.enabled;
+  }
+
+  /**
+   * Changes on every invalidation, so a payload loaded before one is not cached after it
+   */
+  get generation() {
+    return this.invalidations;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(
+    key: string,
+    response: CachedResponse,
+    { ttlMs, tags, generation }: CacheOptions,
+  ) {
+    if (!this.enabled || generation !== this.invalidations) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { ...response, expiresAt: Date.now() + ttlMs, tags });
+    if (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  invalidate(tag: string) {
+    this.invalidations++;
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.includes(tag)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
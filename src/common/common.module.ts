@@ -1,16 +1,40 @@
 import { MiddlewareConsumer, Module, UseGuards } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { APP_GUARD } from '@nestjs/core';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import loggingConfig from '../config/logging.config';
+import {
+  IpRateLimitGuard,
+  RateLimitGuard,
+} from '../rate-limit/rate-limit.guard';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
 import { ApiKeyGuard } from './guards/api-key.guard';
+import { ScopesGuard } from './guards/scopes.guard';
 import { LoggingMiddleware } from './middleware/logging.middleware';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [
+    ConfigModule.forFeature(loggingConfig),
+    ApiKeysModule,
+    RateLimitModule,
+  ],
   providers: [
+    {
+      provide: APP_GUARD,
+      useExisting: IpRateLimitGuard, // Before ApiKeyGuard, so bad keys are limited too
+    },
     {
       provide: APP_GUARD,
       useClass: ApiKeyGuard,
     },
+    {
+      provide: APP_GUARD,
+      useExisting: RateLimitGuard, // Keyed on the caller ApiKeyGuard resolved
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ScopesGuard, // Registered after ApiKeyGuard so the caller is known
+    },
   ],
 })
 export class CommonModule {
@@ -1,3 +1,6 @@
 export enum ChainIds {
   Ethereum = 1,
+  Goerli = 5,
+  Polygon = 137,
+  Mumbai = 80001,
 }
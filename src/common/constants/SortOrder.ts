@@ -0,0 +1,4 @@
+export enum SortOrder {
+  Asc = 'ASC',
+  Desc = 'DESC',
+}
@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DEPRECATED_VERSION_KEY = 'deprecatedVersion';
+
+export interface DeprecatedVersionOptions {
+  successor?: string; // Where clients should move to
+}
+
+export interface DeprecationSchedule {
+  since: string; // ISO date the version was deprecated on
+  sunset?: string; // ISO date the version stops being served
+}
+
+/**
+ * Marks a controller or route's API version as deprecated. DeprecationInterceptor turns it into
+ * Deprecation (RFC 9745), Sunset (RFC 8594) and Link headers, with the dates configured for the version.
+ */
+export const DeprecatedVersion = (options: DeprecatedVersionOptions) =>
+  SetMetadata(DEPRECATED_VERSION_KEY, options);
@@ -0,0 +1,21 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { HttpCacheInterceptor } from '../interceptors/http-cache.interceptor';
+
+export const HTTP_CACHE_KEY = 'httpCache';
+
+export interface HttpCacheOptions {
+  cacheControl: string; // Sent as is, e.g. 'private, max-age=30'
+  ttlMs?: number; // Keeps payloads in the in-memory cache when it is enabled
+  tags?: string[]; // Invalidate one to drop every payload cached with it
+  etag?: (payload: any, apiVersion: string) => string; // Defaults to a hash of the payload and API version
+  vary?: string[]; // Request headers the response depends on, part of the cache key too
+}
+
+/**
+ * ETag, If-None-Match and Cache-Control handling for GET routes
+ */
+export const HttpCache = (options: HttpCacheOptions) =>
+  applyDecorators(
+    SetMetadata(HTTP_CACHE_KEY, options),
+    UseInterceptors(HttpCacheInterceptor),
+  );
@@ -0,0 +1,14 @@
+import { ValidateBy, ValidationOptions } from 'class-validator';
+import { isAddress } from '../utils/ethereum.util';
+
+export const IsAddress = (validationOptions?: ValidationOptions) =>
+  ValidateBy(
+    {
+      name: 'isAddress',
+      validator: {
+        validate: (value) => isAddress(value),
+        defaultMessage: () => '$property must be a valid EIP-55 address',
+      },
+    },
+    validationOptions,
+  );
@@ -0,0 +1,14 @@
+import { ValidateBy, ValidationOptions } from 'class-validator';
+import { isUint256 } from '../utils/ethereum.util';
+
+export const IsUint256 = (validationOptions?: ValidationOptions) =>
+  ValidateBy(
+    {
+      name: 'isUint256',
+      validator: {
+        validate: (value) => isUint256(value),
+        defaultMessage: () => '$property must be a uint256 decimal string',
+      },
+    },
+    validationOptions,
+  );
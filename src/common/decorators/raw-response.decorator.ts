@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Sends the handler's result as is, without the { data, meta, timestamp, version } envelope
+ */
+export const RawResponse = () => SetMetadata(RAW_RESPONSE_KEY, true);
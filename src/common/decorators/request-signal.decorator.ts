@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+export const REQUEST_SIGNAL = Symbol('requestSignal');
+
+/**
+ * The AbortSignal TimeoutInterceptor aborts once the route has timed out.
+ * Hand it to services so they stop work nobody is waiting for.
+ */
+export const RequestSignal = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AbortSignal | undefined =>
+    ctx.switchToHttp().getRequest()[REQUEST_SIGNAL],
+);
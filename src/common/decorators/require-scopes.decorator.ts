@@ -0,0 +1,23 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  ApiForbiddenResponse,
+  ApiSecurity,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+export const API_KEY_SECURITY = 'api-key';
+
+/**
+ * Requires the caller's API key to grant every listed scope. Scopes on the
+ * controller and on the handler add up.
+ */
+export const RequireScopes = (...scopes: string[]) =>
+  applyDecorators(
+    SetMetadata(REQUIRED_SCOPES_KEY, scopes),
+    ApiSecurity(API_KEY_SECURITY, scopes),
+    ApiUnauthorizedResponse({ description: 'Missing or invalid API key.' }),
+    ApiForbiddenResponse({
+      description: `Requires scopes: ${scopes.join(', ')}.`,
+    }),
+  );
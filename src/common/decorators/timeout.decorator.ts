@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const TIMEOUT_KEY = 'timeout';
+
+/**
+ * Overrides the configured request timeout for a controller or route
+ */
+export const Timeout = (ms: number) => SetMetadata(TIMEOUT_KEY, ms);
@@ -0,0 +1,36 @@
+import { applyDecorators, Type as ClassType } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+} from 'class-validator';
+
+export const MAX_BULK_ITEMS = 100;
+
+/**
+ * The items of a bulk request, documented as `item` but kept as plain objects.
+ * The service validates them one by one, so partial mode can report each item.
+ */
+export const BulkItems = (item: ClassType) =>
+  applyDecorators(
+    ApiProperty({ type: [item], maxItems: MAX_BULK_ITEMS }),
+    IsArray(),
+    ArrayNotEmpty(),
+    ArrayMaxSize(MAX_BULK_ITEMS),
+    Type(() => Object),
+  );
+
+export class BulkRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'Apply each item on its own and report how it went, instead of all or nothing.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly partial?: boolean;
+}
@@ -0,0 +1,22 @@
+export class BulkItemResultDto<T> {
+  readonly index: number; // Position of the item in the request
+  readonly status: number;
+  readonly data?: T;
+  readonly error?: string | string[];
+}
+
+export class BulkResponseDto<T> {
+  readonly succeeded: number;
+  readonly failed: number;
+  readonly items: BulkItemResultDto<T>[];
+}
+
+export const mapBulkResponse = <T, R>(
+  { items, ...counts }: BulkResponseDto<T>,
+  map: (data: T) => R,
+): BulkResponseDto<R> => ({
+  ...counts,
+  items: items.map(({ data, ...result }) =>
+    data === undefined ? result : { ...result, data: map(data) },
+  ),
+});
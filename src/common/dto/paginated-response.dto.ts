@@ -0,0 +1,14 @@
+export class PaginatedResponseDto<T> {
+  readonly items: T[];
+  readonly total: number;
+  readonly limit: number | null;
+  readonly offset: number;
+}
+
+export const isPaginatedResponse = (
+  value: unknown,
+): value is PaginatedResponseDto<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as PaginatedResponseDto<unknown>).items) &&
+  typeof (value as PaginatedResponseDto<unknown>).total === 'number';
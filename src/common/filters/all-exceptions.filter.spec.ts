@@ -0,0 +1,99 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+import { Coffee } from '../../coffees/entities/coffee.entity';
+import { attachRequestLog } from '../logging/request-log';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+
+describe('AllExceptionsFilter', () => {
+  let filter: AllExceptionsFilter;
+  let reply: jest.Mock;
+  let host: ArgumentsHost;
+  const response = {};
+
+  const queryFailed = (driverError: Record<string, string>) =>
+    new QueryFailedError('INSERT', [], driverError);
+  const replied = () => ({
+    body: reply.mock.calls[0][1],
+    status: reply.mock.calls[0][2],
+  });
+
+  beforeEach(() => {
+    reply = jest.fn();
+    filter = new AllExceptionsFilter({
+      httpAdapter: { reply },
+    } as unknown as HttpAdapterHost);
+
+    const request = {};
+    attachRequestLog(request, { requestId: 'abc-123', startedAt: 0 });
+    host = {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    } as unknown as ArgumentsHost;
+  });
+
+  it('should be defined', () => {
+    expect(filter).toBeDefined();
+  });
+
+  it('should reply with the envelope through the http adapter', () => {
+    filter.catch(new HttpException('Nope', HttpStatus.NOT_FOUND), host);
+    expect(reply).toBeCalledWith(
+      response,
+      {
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Nope',
+        details: null,
+        requestId: 'abc-123',
+        timestamp: expect.any(String),
+      },
+      404,
+    );
+  });
+
+  it('should move validation messages into details', () => {
+    filter.catch(new BadRequestException(['title must be a string']), host);
+    expect(replied().body).toMatchObject({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Validation failed',
+      details: ['title must be a string'],
+    });
+  });
+
+  it('should map unique violations to 409', () => {
+    filter.catch(queryFailed({ code: '23505', constraint: 'UQ_name' }), host);
+    expect(replied()).toMatchObject({
+      status: 409,
+      body: { details: { constraint: 'UQ_name' } },
+    });
+  });
+
+  it('should map foreign key violations to 422', () => {
+    filter.catch(queryFailed({ code: '23503', constraint: 'FK_coffee' }), host);
+    expect(replied().status).toBe(422);
+  });
+
+  it('should map EntityNotFoundError to 404', () => {
+    filter.catch(new EntityNotFoundError(Coffee, { id: 1 }), host);
+    expect(replied().status).toBe(404);
+  });
+
+  it('should hide unexpected errors behind a 500', () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    filter.catch(new Error('connection string with secrets'), host);
+    expect(replied()).toMatchObject({
+      status: 500,
+      body: { message: 'Internal server error', details: null },
+    });
+  });
+});
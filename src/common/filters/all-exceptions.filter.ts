@@ -0,0 +1,94 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { STATUS_CODES } from 'http';
+import { getRequestId } from '../logging/request-log';
+import { mapDatabaseError } from '../utils/database-error.util';
+
+export interface ErrorResponse {
+  statusCode: number;
+  error: string;
+  message: string;
+  details: unknown;
+  requestId: string | null;
+  timestamp: string;
+}
+
+type MappedError = Pick<ErrorResponse, 'statusCode' | 'message' | 'details'>;
+
+/**
+ * Turns anything thrown while handling a request into the same error body,
+ * replying through the HTTP adapter so it works on Express and Fastify alike
+ */
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  constructor(private readonly httpAdapterHost: HttpAdapterHost) {}
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const { httpAdapter } = this.httpAdapterHost;
+    const ctx = host.switchToHttp();
+    const { statusCode, message, details } = this.mapException(exception);
+
+    if (statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+
+    const body: ErrorResponse = {
+      statusCode,
+      error: STATUS_CODES[statusCode] ?? 'Error',
+      message,
+      details,
+      requestId: getRequestId(ctx.getRequest()) ?? null,
+      timestamp: new Date().toISOString(),
+    };
+    httpAdapter.reply(ctx.getResponse(), body, statusCode);
+  }
+
+  private mapException(exception: unknown): MappedError {
+    if (exception instanceof HttpException) {
+      return this.mapHttpException(exception);
+    }
+    const databaseError = mapDatabaseError(exception);
+    if (databaseError) {
+      return databaseError;
+    }
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      message: 'Internal server error',
+      details: null,
+    };
+  }
+
+  private mapHttpException(exception: HttpException): MappedError {
+    const statusCode = exception.getStatus();
+    const response = exception.getResponse();
+    if (typeof response === 'string') {
+      return { statusCode, message: response, details: null };
+    }
+
+    // e.g. ValidationPipe's { statusCode, message: string[], error }
+    const { message, ...fields } = response as Record<string, unknown>;
+    if (Array.isArray(message)) {
+      return { statusCode, message: 'Validation failed', details: message };
+    }
+
+    // statusCode and error are already part of the envelope
+    delete fields.statusCode;
+    delete fields.error;
+    return {
+      statusCode,
+      message: typeof message === 'string' ? message : exception.message,
+      details: Object.keys(fields).length ? fields : null,
+    };
+  }
+}
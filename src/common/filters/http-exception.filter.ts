@@ -1,32 +0,0 @@
-import {
-  ArgumentsHost,
-  Catch,
-  ExceptionFilter,
-  HttpException,
-} from '@nestjs/common';
-import { Response } from 'express';
-
-@Catch(HttpException)
-export class HttpExceptionFilter<T extends HttpException>
-  implements ExceptionFilter
-{
-  catch(exception: T, host: ArgumentsHost) {
-    const ctx = host.switchToHttp();
-    const response = ctx.getResponse<Response>(); // Express by default, could be fastify
-    const status = exception.getStatus();
-    const exceptionResponse = exception.getResponse();
-    const error =
-      typeof response === 'string'
-        ? {
-            message: exceptionResponse,
-          }
-        : (exceptionResponse as object);
-
-    // Log error
-
-    response.status(status).json({
-      ...error,
-      timestamp: new Date().toISOString(),
-    });
-  }
-}
@@ -1,9 +1,81 @@
-import { ConfigService } from '@nestjs/config';
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import appConfig from '../../config/app.config';
 import { ApiKeyGuard } from './api-key.guard';
 
 describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let reflector: Reflector;
+  let apiKeysService: { verify: jest.Mock };
+
+  const contextFor = (request: Record<string, any>) =>
+    ({
+      getHandler: () => jest.fn(),
+      getClass: () => ApiKeyGuard,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    apiKeysService = { verify: jest.fn() };
+    guard = new ApiKeyGuard(
+      reflector,
+      { apiKey: 'bootstrap-key' } as ConfigType<typeof appConfig>,
+      apiKeysService as unknown as ApiKeysService,
+    );
+  });
+
   it('should be defined', () => {
-    expect(new ApiKeyGuard(new Reflector(), new ConfigService())).toBeDefined();
+    expect(guard).toBeDefined();
+  });
+
+  it('should allow public routes', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+    expect(await guard.canActivate(contextFor({ headers: {} }))).toBe(true);
+  });
+
+  it('should identify callers of public routes who send a key', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+    const request = { headers: { authorization: 'bootstrap-key' } };
+    expect(await guard.canActivate(contextFor(request))).toBe(true);
+    expect(request).toHaveProperty('apiKey.scopes', ['*']);
+  });
+
+  it('should reject requests without a key', async () => {
+    await expect(
+      guard.canActivate(contextFor({ headers: {} })),
+    ).rejects.toThrow(
+      new HttpException('Missing API key', HttpStatus.UNAUTHORIZED),
+    );
+  });
+
+  it('should accept the bootstrap key with every scope', async () => {
+    const request = { headers: { authorization: 'bootstrap-key' } };
+    expect(await guard.canActivate(contextFor(request))).toBe(true);
+    expect(request).toHaveProperty('apiKey.scopes', ['*']);
+    expect(apiKeysService.verify).not.toBeCalled();
+  });
+
+  it('should attach the identity of an issued key', async () => {
+    const identity = { id: 1, name: 'ci', owner: 'ops', scopes: [] };
+    apiKeysService.verify.mockResolvedValue(identity);
+    const request = { headers: { authorization: 'Bearer abc.secret' } };
+
+    expect(await guard.canActivate(contextFor(request))).toBe(true);
+    expect(apiKeysService.verify).toBeCalledWith('abc.secret');
+    expect(request).toHaveProperty('apiKey', identity);
+  });
+
+  it('should reject keys that do not verify', async () => {
+    apiKeysService.verify.mockResolvedValue(null);
+    await expect(
+      guard.canActivate(
+        contextFor({ headers: { authorization: 'abc.wrong' } }),
+      ),
+    ).rejects.toThrow(
+      new HttpException('Invalid API key', HttpStatus.UNAUTHORIZED),
+    );
   });
 });
@@ -1,28 +1,79 @@
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
-import { Request } from 'express';
-import { Observable } from 'rxjs';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { WILDCARD_SCOPE } from '../../api-keys/constants/scopes';
+import { ApiKeyIdentity } from '../../api-keys/interfaces/api-key-identity.interface';
+import appConfig from '../../config/app.config';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { getRequestLog } from '../logging/request-log';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   constructor(
     private readonly reflector: Reflector,
-    private readonly configService: ConfigService,
+    @Inject(appConfig.KEY)
+    private readonly config: ConfigType<typeof appConfig>,
+    private readonly apiKeysService: ApiKeysService,
   ) {}
 
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    const isPublic = this.reflector.get(IS_PUBLIC_KEY, context.getHandler());
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ headers: IncomingHttpHeaders; apiKey?: ApiKeyIdentity }>();
 
-    if (isPublic) {
+    const key = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+    // Public routes still identify callers who send a key, so they can offer them more
+    if (isPublic && !key) {
       return true;
     }
+    if (!key) {
+      throw new HttpException('Missing API key', HttpStatus.UNAUTHORIZED);
+    }
+
+    const apiKey = this.isBootstrapKey(key)
+      ? this.bootstrapIdentity()
+      : await this.apiKeysService.verify(key);
+    if (!apiKey) {
+      throw new HttpException('Invalid API key', HttpStatus.UNAUTHORIZED);
+    }
+
+    request.apiKey = apiKey;
+    const requestLog = getRequestLog(request);
+    if (requestLog) {
+      requestLog.apiKey = apiKey;
+    }
+    return true;
+  }
+
+  // The configured key works before any keys are issued, so the first ones can be
+  private isBootstrapKey(key: string) {
+    const bootstrapKey = this.config.apiKey;
+    return !!bootstrapKey && timingSafeEqual(digest(key), digest(bootstrapKey));
+  }
 
-    const request = context.switchToHttp().getRequest<Request>();
-    const authHeader = request.header('Authorization');
-    return authHeader === this.configService.get('apiKey');
+  private bootstrapIdentity(): ApiKeyIdentity {
+    return {
+      id: null,
+      name: 'bootstrap',
+      owner: 'config',
+      scopes: [WILDCARD_SCOPE],
+    };
   }
 }
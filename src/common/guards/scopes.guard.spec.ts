@@ -0,0 +1,92 @@
+import {
+  Controller,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Public } from '../decorators/public.decorator';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ScopesGuard } from './scopes.guard';
+
+@RequireScopes('coffees:read')
+@Controller()
+class ScopedController {
+  read() {
+    return;
+  }
+
+  @RequireScopes('coffees:write')
+  write() {
+    return;
+  }
+}
+
+@Public()
+@Controller()
+class PublicController {
+  read() {
+    return;
+  }
+
+  @RequireScopes('coffees:write')
+  write() {
+    return;
+  }
+}
+
+describe('ScopesGuard', () => {
+  const guard = new ScopesGuard(new Reflector());
+
+  const contextFor = (controller: any, handler: string, scopes?: string[]) =>
+    ({
+      getHandler: () => controller.prototype[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({ apiKey: scopes && { scopes } }),
+      }),
+    } as unknown as ExecutionContext);
+
+  it('should allow callers with the class scope', () => {
+    expect(
+      guard.canActivate(contextFor(ScopedController, 'read', ['coffees:read'])),
+    ).toBe(true);
+  });
+
+  it('should require class and method scopes together', () => {
+    expect(() =>
+      guard.canActivate(
+        contextFor(ScopedController, 'write', ['coffees:read']),
+      ),
+    ).toThrow(
+      new HttpException('Missing scopes: coffees:write', HttpStatus.FORBIDDEN),
+    );
+  });
+
+  it('should allow the wildcard scope', () => {
+    expect(
+      guard.canActivate(contextFor(ScopedController, 'write', ['*'])),
+    ).toBe(true);
+  });
+
+  it('should reject callers without an identity', () => {
+    expect(() =>
+      guard.canActivate(contextFor(ScopedController, 'read')),
+    ).toThrow(new HttpException('Missing API key', HttpStatus.UNAUTHORIZED));
+  });
+
+  it('should let anyone through public routes without scopes', () => {
+    expect(guard.canActivate(contextFor(PublicController, 'read'))).toBe(true);
+  });
+
+  it('should still require the scopes declared on public routes', () => {
+    expect(() =>
+      guard.canActivate(contextFor(PublicController, 'write')),
+    ).toThrow(new HttpException('Missing API key', HttpStatus.UNAUTHORIZED));
+    expect(
+      guard.canActivate(
+        contextFor(PublicController, 'write', ['coffees:write']),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WILDCARD_SCOPE } from '../../api-keys/constants/scopes';
+import { ApiKeyIdentity } from '../../api-keys/interfaces/api-key-identity.interface';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+
+export const findMissingScopes = (
+  apiKey: ApiKeyIdentity,
+  requiredScopes: string[],
+) =>
+  apiKey.scopes.includes(WILDCARD_SCOPE)
+    ? []
+    : requiredScopes.filter((scope) => !apiKey.scopes.includes(scope));
+
+/**
+ * Runs after ApiKeyGuard, which has attached the caller's identity to the request.
+ * Declared scopes are required on public routes too, @Public only lets keyless requests reach them.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndMerge<string[]>(
+      REQUIRED_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes.length) {
+      return true;
+    }
+
+    const apiKey: ApiKeyIdentity | undefined = context
+      .switchToHttp()
+      .getRequest().apiKey;
+    if (!apiKey) {
+      throw new HttpException('Missing API key', HttpStatus.UNAUTHORIZED);
+    }
+
+    const missingScopes = findMissingScopes(apiKey, requiredScopes);
+    if (missingScopes.length) {
+      throw new HttpException(
+        `Missing scopes: ${missingScopes.join(', ')}`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    return true;
+  }
+}
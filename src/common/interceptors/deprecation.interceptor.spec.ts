@@ -0,0 +1,73 @@
+import { CallHandler, Controller, ExecutionContext } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { DeprecatedVersion } from '../decorators/deprecated-version.decorator';
+import { ApiVersioningType } from '../versioning/api-versioning';
+import { DeprecationInterceptor } from './deprecation.interceptor';
+
+@DeprecatedVersion({ successor: '/v2/coffees' })
+class DeprecatedController {
+  find() {
+    return;
+  }
+}
+
+@DeprecatedVersion({ successor: '/v3/coffees' })
+@Controller({ version: '2' })
+class UnscheduledController {
+  find() {
+    return;
+  }
+}
+
+class CurrentController {
+  find() {
+    return;
+  }
+}
+
+describe('DeprecationInterceptor', () => {
+  const interceptor = new DeprecationInterceptor(new Reflector(), {
+    versioning: { type: ApiVersioningType.Uri, header: 'X-API-Version' },
+    deprecations: { '1': { since: '2026-10-19', sunset: '2027-04-30' } },
+  } as unknown as ConfigType<typeof appConfig>);
+  const next = { handle: () => of(null) } as CallHandler;
+  let headers: Record<string, string>;
+
+  const contextFor = (controller: any) =>
+    ({
+      getHandler: () => controller.prototype.find,
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({ url: '/coffees', headers: {} }),
+        getResponse: () => ({
+          header: (name: string, value: string) => (headers[name] = value),
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    headers = {};
+  });
+
+  it('should set the deprecation headers with the dates of the version', () => {
+    interceptor.intercept(contextFor(DeprecatedController), next);
+    expect(headers).toEqual({
+      Deprecation: `@${Date.UTC(2026, 9, 19) / 1000}`,
+      Sunset: 'Fri, 30 Apr 2027 00:00:00 GMT',
+      Link: '</v2/coffees>; rel="successor-version"',
+    });
+  });
+
+  it('should leave versions without configured dates alone', () => {
+    interceptor.intercept(contextFor(UnscheduledController), next);
+    expect(headers).toEqual({});
+  });
+
+  it('should leave current versions alone', () => {
+    interceptor.intercept(contextFor(CurrentController), next);
+    expect(headers).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import appConfig from '../../config/app.config';
+import {
+  DeprecatedVersionOptions,
+  DEPRECATED_VERSION_KEY,
+} from '../decorators/deprecated-version.decorator';
+import { HeaderWriter } from '../interfaces/header-writer.interface';
+import { resolveApiVersion } from '../versioning/api-versioning';
+
+@Injectable()
+export class DeprecationInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(appConfig.KEY)
+    private readonly config: ConfigType<typeof appConfig>,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const deprecation =
+      this.reflector.getAllAndOverride<DeprecatedVersionOptions>(
+        DEPRECATED_VERSION_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+    const schedule =
+      deprecation &&
+      this.config.deprecations[
+        resolveApiVersion(context, this.config.versioning)
+      ];
+
+    // Set before the handler runs so error responses carry them too
+    if (schedule) {
+      const response = context.switchToHttp().getResponse<HeaderWriter>();
+      const deprecatedAt = Math.floor(Date.parse(schedule.since) / 1000);
+      response.header('Deprecation', `@${deprecatedAt}`);
+      if (schedule.sunset) {
+        response.header('Sunset', new Date(schedule.sunset).toUTCString());
+      }
+      if (deprecation.successor) {
+        response.header(
+          'Link',
+          `<${deprecation.successor}>; rel="successor-version"`,
+        );
+      }
+    }
+    return next.handle();
+  }
+}
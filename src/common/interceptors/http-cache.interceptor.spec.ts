@@ -0,0 +1,159 @@
+import { CallHandler, ExecutionContext, StreamableFile } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { ResponseCache } from '../cache/response-cache';
+import { HttpCache } from '../decorators/http-cache.decorator';
+import { ApiVersioningType } from '../versioning/api-versioning';
+import { HttpCacheInterceptor } from './http-cache.interceptor';
+
+class TestController {
+  @HttpCache({ cacheControl: 'private, max-age=30' })
+  findOne() {
+    return;
+  }
+
+  @HttpCache({ cacheControl: 'no-cache', ttlMs: 1000, tags: ['coffees'] })
+  findAll() {
+    return;
+  }
+
+  @HttpCache({
+    cacheControl: 'no-cache',
+    etag: (payload, apiVersion) => `"${apiVersion}.7"`,
+  })
+  findVersioned() {
+    return;
+  }
+
+  @HttpCache({ cacheControl: 'no-cache', ttlMs: 1000, vary: ['Accept'] })
+  findNegotiated() {
+    return;
+  }
+
+  create() {
+    return;
+  }
+}
+
+describe('HttpCacheInterceptor', () => {
+  let interceptor: HttpCacheInterceptor;
+  let cache: ResponseCache;
+  let headers: Record<string, string>;
+  let status: jest.Mock;
+  let handle: jest.Mock;
+
+  const run = (handler: string, requestHeaders: Record<string, string> = {}) =>
+    lastValueFrom(
+      interceptor.intercept(
+        {
+          getHandler: () => TestController.prototype[handler],
+          getClass: () => TestController,
+          switchToHttp: () => ({
+            getRequest: () => ({
+              method: 'GET',
+              url: '/coffees',
+              headers: requestHeaders,
+            }),
+            getResponse: () => ({
+              header: (name: string, value: string) => (headers[name] = value),
+              status,
+            }),
+          }),
+        } as unknown as ExecutionContext,
+        { handle } as CallHandler,
+      ),
+    );
+
+  const createInterceptor = (type: ApiVersioningType) =>
+    new HttpCacheInterceptor(
+      new Reflector(),
+      {
+        versioning: { type, header: 'X-API-Version' },
+      } as ConfigType<typeof appConfig>,
+      cache,
+    );
+
+  beforeEach(() => {
+    headers = {};
+    status = jest.fn();
+    handle = jest.fn(() => of({ id: 1 }));
+    cache = new ResponseCache({ enabled: true, maxEntries: 10 });
+    interceptor = createInterceptor(ApiVersioningType.Uri);
+  });
+
+  it('should be defined', () => {
+    expect(interceptor).toBeDefined();
+  });
+
+  it('should set the ETag and Cache-Control of the payload', async () => {
+    expect(await run('findOne')).toEqual({ id: 1 });
+    expect(headers).toEqual({
+      ETag: expect.stringMatching(/^".+"$/),
+      'Cache-Control': 'private, max-age=30',
+    });
+  });
+
+  it('should use the ETag of the route when it has one', async () => {
+    await run('findVersioned');
+    expect(headers.ETag).toBe('"1.7"');
+  });
+
+  it('should vary on the version header when versioning by header', async () => {
+    interceptor = createInterceptor(ApiVersioningType.Header);
+    await run('findOne');
+    expect(headers.Vary).toBe('X-API-Version');
+  });
+
+  it('should vary on the headers of the route', async () => {
+    interceptor = createInterceptor(ApiVersioningType.Header);
+    await run('findNegotiated');
+    expect(headers.Vary).toBe('X-API-Version, Accept');
+  });
+
+  it('should cache each value of the varying headers apart', async () => {
+    await run('findNegotiated', { accept: 'application/json' });
+    await run('findNegotiated', { accept: 'application/json' });
+    await run('findNegotiated', { accept: 'text/csv' });
+    expect(handle).toBeCalledTimes(2);
+  });
+
+  it('should neither hash nor cache streams', async () => {
+    const file = new StreamableFile(Buffer.from('id\r\n'));
+    handle.mockReturnValue(of(file));
+    expect(await run('findNegotiated')).toBe(file);
+    expect(headers.ETag).toBeUndefined();
+    await run('findNegotiated');
+    expect(handle).toBeCalledTimes(2);
+  });
+
+  it('should answer 304 without a body when the ETag matches', async () => {
+    await run('findOne');
+    expect(
+      await run('findOne', { 'if-none-match': headers.ETag }),
+    ).toBeUndefined();
+    expect(status).toBeCalledWith(304);
+  });
+
+  it('should serve cached payloads until they are invalidated', async () => {
+    await run('findAll');
+    expect(await run('findAll')).toEqual({ id: 1 });
+    expect(handle).toBeCalledTimes(1);
+
+    cache.invalidate('coffees');
+    await run('findAll');
+    expect(handle).toBeCalledTimes(2);
+  });
+
+  it('should only cache routes with a ttl', async () => {
+    await run('findOne');
+    await run('findOne');
+    expect(handle).toBeCalledTimes(2);
+  });
+
+  it('should leave other routes alone', async () => {
+    await run('create');
+    expect(headers).toEqual({});
+  });
+});
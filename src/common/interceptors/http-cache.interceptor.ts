@@ -0,0 +1,114 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  StreamableFile,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { IncomingHttpHeaders } from 'http';
+import { map, Observable, of } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { createETag, matchesIfNoneMatch } from '../cache/etag';
+import { CachedResponse, ResponseCache } from '../cache/response-cache';
+import { HeaderWriter } from '../interfaces/header-writer.interface';
+import {
+  HttpCacheOptions,
+  HTTP_CACHE_KEY,
+} from '../decorators/http-cache.decorator';
+import {
+  ApiVersioningType,
+  resolveApiVersion,
+} from '../versioning/api-versioning';
+
+// Both Express and Fastify responses can set their status too
+interface CacheableResponse extends HeaderWriter {
+  status(code: number): unknown;
+}
+
+/**
+ * Runs inside WrapResponseInterceptor, so it sees the payload before the envelope adds a timestamp
+ */
+@Injectable()
+export class HttpCacheInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(appConfig.KEY)
+    private readonly config: ConfigType<typeof appConfig>,
+    private readonly cache: ResponseCache,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const options = this.reflector.getAllAndOverride<HttpCacheOptions>(
+      HTTP_CACHE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const http = context.switchToHttp();
+    const request = http.getRequest<{
+      method: string;
+      url: string;
+      headers: IncomingHttpHeaders;
+    }>();
+    if (!options || request.method !== 'GET') {
+      return next.handle();
+    }
+
+    const response = http.getResponse<CacheableResponse>();
+    const version = resolveApiVersion(context, this.config.versioning);
+    const vary = [
+      // Header versioning serves every version on the same URL
+      ...(this.config.versioning.type === ApiVersioningType.Header
+        ? [this.config.versioning.header]
+        : []),
+      ...(options.vary ?? []),
+    ];
+    const key = [
+      version,
+      request.url,
+      ...(options.vary ?? []).map(
+        (header) => request.headers[header.toLowerCase()] ?? '',
+      ),
+    ].join(':');
+    if (vary.length) {
+      response.header('Vary', vary.join(', '));
+    }
+    const respond = ({ etag, payload }: CachedResponse) => {
+      response.header('ETag', etag);
+      response.header('Cache-Control', options.cacheControl);
+      if (matchesIfNoneMatch(request.headers['if-none-match'], etag)) {
+        response.status(HttpStatus.NOT_MODIFIED);
+        return undefined;
+      }
+      return payload;
+    };
+
+    const useCache = this.cache.enabled && !!options.ttlMs;
+    const cached = useCache ? this.cache.get(key) : undefined;
+    if (cached) {
+      return of(respond(cached));
+    }
+
+    const generation = this.cache.generation;
+    return next.handle().pipe(
+      map((payload) => {
+        // A stream is read once, it can be neither hashed nor kept
+        if (payload instanceof StreamableFile) {
+          return payload;
+        }
+        const etag =
+          options.etag?.(payload, version) ?? createETag([version, payload]);
+        if (useCache) {
+          this.cache.set(
+            key,
+            { etag, payload },
+            { ttlMs: options.ttlMs, tags: options.tags ?? [], generation },
+          );
+        }
+        return respond({ etag, payload });
+      }),
+    );
+  }
+}
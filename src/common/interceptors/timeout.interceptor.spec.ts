@@ -1,7 +1,91 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  NotFoundException,
+  RequestTimeoutException,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, NEVER, throwError } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { MetricsRegistry } from '../../metrics/metrics.registry';
+import { REQUEST_SIGNAL } from '../decorators/request-signal.decorator';
+import { Timeout } from '../decorators/timeout.decorator';
 import { TimeoutInterceptor } from './timeout.interceptor';
 
+class TestController {
+  list() {
+    return;
+  }
+
+  @Timeout(50)
+  export() {
+    return;
+  }
+}
+
 describe('TimeoutInterceptor', () => {
+  let interceptor: TimeoutInterceptor;
+  let request: Record<string | symbol, unknown>;
+  let registry: MetricsRegistry;
+
+  const contextFor = (handler: string) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ legacyFakeTimers: true });
+    request = { method: 'GET', routerPath: '/coffees' };
+    registry = new MetricsRegistry();
+    interceptor = new TimeoutInterceptor(
+      new Reflector(),
+      { requestTimeoutMs: 3000 } as ConfigType<typeof appConfig>,
+      registry,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   it('should be defined', () => {
-    expect(new TimeoutInterceptor()).toBeDefined();
+    expect(interceptor).toBeDefined();
+  });
+
+  it('should pass other errors through untouched', async () => {
+    const error = new NotFoundException();
+    const next: CallHandler = { handle: () => throwError(() => error) };
+    await expect(
+      lastValueFrom(interceptor.intercept(contextFor('list'), next)),
+    ).rejects.toBe(error);
+  });
+
+  it('should turn the configured timeout into a 408 and abort the signal', async () => {
+    const next: CallHandler = { handle: () => NEVER };
+    const result = lastValueFrom(
+      interceptor.intercept(contextFor('list'), next),
+    );
+    const signal = request[REQUEST_SIGNAL] as AbortSignal;
+
+    jest.advanceTimersByTime(2999);
+    expect(signal.aborted).toBe(false);
+    jest.advanceTimersByTime(1);
+    await expect(result).rejects.toBeInstanceOf(RequestTimeoutException);
+    expect(signal.aborted).toBe(true);
+    expect(registry.render()).toContain(
+      'http_request_timeouts_total{method="GET",route="/coffees"} 1',
+    );
+  });
+
+  it('should prefer the route timeout', async () => {
+    const next: CallHandler = { handle: () => NEVER };
+    const result = lastValueFrom(
+      interceptor.intercept(contextFor('export'), next),
+    );
+    jest.advanceTimersByTime(50);
+    await expect(result).rejects.toBeInstanceOf(RequestTimeoutException);
   });
 });
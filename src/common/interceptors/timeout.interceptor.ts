@@ -1,10 +1,14 @@
 import {
   CallHandler,
   ExecutionContext,
+  Inject,
   Injectable,
   NestInterceptor,
   RequestTimeoutException,
 } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { SSE_METADATA } from '@nestjs/common/constants';
 import {
   catchError,
   Observable,
@@ -12,20 +16,57 @@ import {
   timeout,
   TimeoutError,
 } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { Counter } from '../../metrics/metric';
+import { MetricsRegistry } from '../../metrics/metrics.registry';
+import { REQUEST_SIGNAL } from '../decorators/request-signal.decorator';
+import { TIMEOUT_KEY } from '../decorators/timeout.decorator';
+import { getRoutePattern } from '../logging/request-log';
 
 @Injectable()
 export class TimeoutInterceptor implements NestInterceptor {
+  private readonly timeouts: Counter;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(appConfig.KEY)
+    private readonly config: ConfigType<typeof appConfig>,
+    registry: MetricsRegistry,
+  ) {
+    this.timeouts = registry.counter({
+      name: 'http_request_timeouts_total',
+      help: 'Requests answered with 408 because their handler ran out of time',
+      labelNames: ['method', 'route'],
+    });
+  }
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    // Server-Sent Event streams stay open for as long as the client listens
+    if (Reflect.getMetadata(SSE_METADATA, context.getHandler())) {
+      return next.handle();
+    }
+
+    const timeoutMs =
+      this.reflector.getAllAndOverride<number>(TIMEOUT_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? this.config.requestTimeoutMs;
+    const abortController = new AbortController();
+    const request = context.switchToHttp().getRequest();
+    request[REQUEST_SIGNAL] = abortController.signal;
+
     return next.handle().pipe(
-      timeout(3000),
+      timeout(timeoutMs),
       catchError((err) => {
         if (err instanceof TimeoutError) {
+          abortController.abort();
+          this.timeouts.inc({
+            method: request.method,
+            route: getRoutePattern(request),
+          });
           return throwError(() => new RequestTimeoutException());
         }
-        return throwError(
-          () =>
-            new Error(err?.message || err?.errorMessage || JSON.stringify(err)),
-        );
+        return throwError(() => err);
       }),
     );
   }
@@ -1,7 +1,101 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  StreamableFile,
+  VERSION_NEUTRAL,
+} from '@nestjs/common';
+import { VERSION_METADATA } from '@nestjs/common/constants';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import appConfig from '../../config/app.config';
+import { RawResponse } from '../decorators/raw-response.decorator';
+import { ApiVersioningType } from '../versioning/api-versioning';
 import { WrapResponseInterceptor } from './wrap-response.interceptor';
 
+class TestController {
+  find() {
+    return;
+  }
+
+  @RawResponse()
+  raw() {
+    return;
+  }
+}
+Reflect.defineMetadata(
+  VERSION_METADATA,
+  ['1', VERSION_NEUTRAL],
+  TestController,
+);
+
 describe('WrapResponseInterceptor', () => {
+  let interceptor: WrapResponseInterceptor;
+
+  const contextFor = (handler: string, url: string, statusCode = 200) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({
+        getRequest: () => ({ url, headers: {} }),
+        getResponse: () => ({ statusCode }),
+      }),
+    } as unknown as ExecutionContext);
+  const wrap = (context: ExecutionContext, data: unknown) =>
+    lastValueFrom(
+      interceptor.intercept(context, { handle: () => of(data) } as CallHandler),
+    );
+
+  beforeEach(() => {
+    interceptor = new WrapResponseInterceptor(new Reflector(), {
+      versioning: { type: ApiVersioningType.Uri, header: 'X-API-Version' },
+    } as ConfigType<typeof appConfig>);
+  });
+
   it('should be defined', () => {
-    expect(new WrapResponseInterceptor()).toBeDefined();
+    expect(interceptor).toBeDefined();
+  });
+
+  it('should wrap data with the requested version', async () => {
+    expect(await wrap(contextFor('find', '/v1/coffees/1'), { id: 1 })).toEqual({
+      data: { id: 1 },
+      timestamp: expect.any(Number),
+      version: '1',
+    });
+  });
+
+  it('should report the controller version for unversioned requests', async () => {
+    expect(await wrap(contextFor('find', '/coffees'), {})).toMatchObject({
+      version: '1',
+    });
+  });
+
+  it('should move pagination into meta', async () => {
+    expect(
+      await wrap(contextFor('find', '/coffees'), {
+        items: [{ id: 1 }],
+        total: 1,
+        limit: null,
+        offset: 0,
+      }),
+    ).toMatchObject({
+      data: [{ id: 1 }],
+      meta: { total: 1, limit: null, offset: 0 },
+    });
+  });
+
+  it('should not give a 304 a body', async () => {
+    expect(
+      await wrap(contextFor('find', '/coffees', 304), undefined),
+    ).toBeUndefined();
+  });
+
+  it('should send streamed lists as they are', async () => {
+    const file = new StreamableFile(Buffer.from('id\r\n'));
+    expect(await wrap(contextFor('find', '/coffees'), file)).toBe(file);
+  });
+
+  it('should leave raw responses alone', async () => {
+    expect(await wrap(contextFor('raw', '/coffees'), 'raw')).toBe('raw');
   });
 });
@@ -1,23 +1,62 @@
 import {
   CallHandler,
   ExecutionContext,
+  HttpStatus,
+  Inject,
   Injectable,
   NestInterceptor,
+  StreamableFile,
 } from '@nestjs/common';
-import { map, Observable, tap } from 'rxjs';
+import { SSE_METADATA } from '@nestjs/common/constants';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { map, Observable } from 'rxjs';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
+import { isPaginatedResponse } from '../dto/paginated-response.dto';
+import appConfig from '../../config/app.config';
+import { resolveApiVersion } from '../versioning/api-versioning';
 
 // Tap for logging
 // Map for transforming
 
 @Injectable()
 export class WrapResponseInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(appConfig.KEY)
+    private readonly config: ConfigType<typeof appConfig>,
+  ) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    // Server-Sent Events are written message by message and must stay unwrapped
+    if (
+      Reflect.getMetadata(SSE_METADATA, context.getHandler()) ||
+      this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+    ) {
+      return next.handle();
+    }
+
+    const version = resolveApiVersion(context, this.config.versioning);
+    const response = context.switchToHttp().getResponse();
     return next.handle().pipe(
-      map((data) => ({
-        data,
-        timestamp: Date.now(),
-        version: 1,
-      })),
+      map((data) => {
+        // Set by HttpCacheInterceptor, a 304 has no body to wrap
+        if (response.statusCode === HttpStatus.NOT_MODIFIED) {
+          return undefined;
+        }
+        // Streamed lists, in CSV or NDJSON, are written as they are read
+        if (data instanceof StreamableFile) {
+          return data;
+        }
+        if (isPaginatedResponse(data)) {
+          const { items, ...meta } = data;
+          return { data: items, meta, timestamp: Date.now(), version };
+        }
+        return { data, timestamp: Date.now(), version };
+      }),
     );
   }
 }
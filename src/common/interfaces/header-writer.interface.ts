@@ -0,0 +1,6 @@
+/**
+ * The response of either HTTP adapter, Express and Fastify both set headers through `header`
+ */
+export interface HeaderWriter {
+  header(name: string, value: string | number): unknown;
+}
@@ -0,0 +1,48 @@
+import { ApiKeyIdentity } from '../../api-keys/interfaces/api-key-identity.interface';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+export enum LogLevel {
+  Debug = 'debug',
+  Info = 'info',
+  Warn = 'warn',
+  Error = 'error',
+  Silent = 'silent',
+}
+
+export const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.Debug]: 0,
+  [LogLevel.Info]: 1,
+  [LogLevel.Warn]: 2,
+  [LogLevel.Error]: 3,
+  [LogLevel.Silent]: 4,
+};
+
+/**
+ * What the access log line knows about a request beyond the raw HTTP exchange
+ */
+export interface RequestLog {
+  requestId: string;
+  startedAt: number;
+  route?: string;
+  apiKey?: ApiKeyIdentity;
+}
+
+const REQUEST_LOG = Symbol('requestLog');
+
+// Fastify hands middleware the raw request, but guards and filters get its wrapper
+const rawRequest = (request: any) => request.raw ?? request;
+
+export const attachRequestLog = (request: any, requestLog: RequestLog) => {
+  rawRequest(request)[REQUEST_LOG] = requestLog;
+};
+
+export const getRequestLog = (request: any): RequestLog | undefined =>
+  rawRequest(request)[REQUEST_LOG];
+
+// The matched route pattern, e.g. /coffees/:id
+export const getRoutePattern = (request: any): string | undefined =>
+  request.routerPath ?? request.route?.path;
+
+export const getRequestId = (request: any): string | undefined =>
+  getRequestLog(request)?.requestId;
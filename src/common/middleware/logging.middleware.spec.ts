@@ -1,7 +1,94 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage, ServerResponse } from 'http';
+import { getRequestLog, LogLevel } from '../logging/request-log';
 import { LoggingMiddleware } from './logging.middleware';
 
 describe('LoggingMiddleware', () => {
+  let middleware: LoggingMiddleware;
+  let write: jest.SpyInstance;
+
+  const createExchange = (headers: Record<string, string> = {}) => {
+    const req = { method: 'GET', url: '/coffees/1', headers };
+    const res = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      setHeader: jest.fn(),
+    });
+    return {
+      req: req as unknown as IncomingMessage,
+      res: res as unknown as ServerResponse & EventEmitter,
+    };
+  };
+  const loggedEntry = () => JSON.parse(write.mock.calls[0][0]);
+
+  beforeEach(() => {
+    middleware = new LoggingMiddleware({
+      level: LogLevel.Info,
+      redactHeaders: ['authorization'],
+    });
+    write = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    write.mockRestore();
+  });
+
   it('should be defined', () => {
-    expect(new LoggingMiddleware()).toBeDefined();
+    expect(middleware).toBeDefined();
+  });
+
+  it('should generate a request id and echo it', () => {
+    const { req, res } = createExchange();
+    const next = jest.fn();
+    middleware.use(req, res, next);
+
+    const requestId = getRequestLog(req).requestId;
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.setHeader).toBeCalledWith('X-Request-Id', requestId);
+    expect(next).toBeCalled();
+  });
+
+  it('should reuse a valid incoming request id', () => {
+    const { req, res } = createExchange({ 'x-request-id': 'abc-123' });
+    middleware.use(req, res, jest.fn());
+    expect(getRequestLog(req).requestId).toBe('abc-123');
+  });
+
+  it('should replace an unsafe incoming request id', () => {
+    const { req, res } = createExchange({ 'x-request-id': 'a\nb' });
+    middleware.use(req, res, jest.fn());
+    expect(getRequestLog(req).requestId).not.toBe('a\nb');
+  });
+
+  it('should write a JSON access log when the response finishes', () => {
+    const { req, res } = createExchange({ authorization: 'secret' });
+    middleware.use(req, res, jest.fn());
+    Object.assign(getRequestLog(req), {
+      route: '/coffees/:id',
+      apiKey: { id: 1, name: 'ci', owner: 'ops', scopes: [] },
+    });
+    res.statusCode = 404;
+    res.emit('finish');
+
+    expect(loggedEntry()).toMatchObject({
+      level: LogLevel.Warn,
+      requestId: getRequestLog(req).requestId,
+      method: 'GET',
+      route: '/coffees/:id',
+      status: 404,
+      apiKey: { id: 1, name: 'ci' },
+      headers: { authorization: '[REDACTED]' },
+    });
+    expect(typeof loggedEntry().durationMs).toBe('number');
+  });
+
+  it('should skip entries below the configured level', () => {
+    middleware = new LoggingMiddleware({
+      level: LogLevel.Warn,
+      redactHeaders: [],
+    });
+    const { req, res } = createExchange();
+    middleware.use(req, res, jest.fn());
+    res.emit('finish');
+    expect(write).not.toBeCalled();
   });
 });
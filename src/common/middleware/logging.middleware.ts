@@ -1,9 +1,81 @@
-import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Inject, Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { performance } from 'perf_hooks';
+import loggingConfig from '../../config/logging.config';
+import {
+  attachRequestLog,
+  LogLevel,
+  LOG_LEVEL_SEVERITY,
+  RequestLog,
+  REQUEST_ID_HEADER,
+} from '../logging/request-log';
+
+// Incoming ids are echoed into headers and logs, so only accept plain tokens
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
 
 @Injectable()
 export class LoggingMiddleware implements NestMiddleware {
-  use(req: any, res: any, next: () => void) {
-    res.on('finish', () => console.timeEnd('Request-response time'));
+  constructor(
+    @Inject(loggingConfig.KEY)
+    private readonly config: ConfigType<typeof loggingConfig>,
+  ) {}
+
+  use(req: IncomingMessage, res: ServerResponse, next: () => void) {
+    const incomingId = req.headers[REQUEST_ID_HEADER];
+    const requestId =
+      typeof incomingId === 'string' && VALID_REQUEST_ID.test(incomingId)
+        ? incomingId
+        : randomUUID();
+    const requestLog: RequestLog = { requestId, startedAt: performance.now() };
+
+    attachRequestLog(req, requestLog);
+    res.setHeader('X-Request-Id', requestId);
+    res.on('finish', () => this.log(req, res, requestLog));
     next();
   }
+
+  private log(
+    req: IncomingMessage,
+    res: ServerResponse,
+    requestLog: RequestLog,
+  ) {
+    const level =
+      res.statusCode >= 500
+        ? LogLevel.Error
+        : res.statusCode >= 400
+        ? LogLevel.Warn
+        : LogLevel.Info;
+    if (LOG_LEVEL_SEVERITY[level] < LOG_LEVEL_SEVERITY[this.config.level]) {
+      return;
+    }
+
+    const { requestId, startedAt, route, apiKey } = requestLog;
+    const entry = {
+      level,
+      time: new Date().toISOString(),
+      requestId,
+      method: req.method,
+      route: route ?? null,
+      url: req.url,
+      status: res.statusCode,
+      durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+      apiKey: apiKey ? { id: apiKey.id, name: apiKey.name } : null,
+      headers: this.redact(req.headers),
+    };
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  private redact(headers: IncomingMessage['headers']) {
+    return Object.keys(headers).reduce(
+      (redacted, name) => ({
+        ...redacted,
+        [name]: this.config.redactHeaders.includes(name)
+          ? '[REDACTED]'
+          : headers[name],
+      }),
+      {},
+    );
+  }
 }
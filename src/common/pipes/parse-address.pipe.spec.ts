@@ -0,0 +1,27 @@
+import { HttpException } from '@nestjs/common';
+import { ParseAddressPipe } from './parse-address.pipe';
+
+describe('ParseAddressPipe', () => {
+  const pipe = new ParseAddressPipe();
+
+  it('should be defined', () => {
+    expect(pipe).toBeDefined();
+  });
+
+  describe('transform', () => {
+    describe('when the address is valid', () => {
+      it('should return it checksummed', () => {
+        expect(
+          pipe.transform('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'),
+        ).toEqual('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+      });
+    });
+    describe('when the checksum is wrong', () => {
+      it('should throw', () => {
+        expect(() =>
+          pipe.transform('0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed'),
+        ).toThrow(HttpException);
+      });
+    });
+  });
+});
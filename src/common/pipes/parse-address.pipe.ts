@@ -0,0 +1,21 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  PipeTransform,
+} from '@nestjs/common';
+import { isAddress, toChecksumAddress } from '../utils/ethereum.util';
+
+@Injectable()
+export class ParseAddressPipe implements PipeTransform<string, string> {
+  transform(value: string) {
+    if (!isAddress(value)) {
+      throw new HttpException(
+        `${value} is not a valid EIP-55 address`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return toChecksumAddress(value);
+  }
+}
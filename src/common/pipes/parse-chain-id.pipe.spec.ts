@@ -1,7 +1,36 @@
+import { HttpException } from '@nestjs/common';
+import { ChainsService } from '../../chains/chains.service';
 import { ParseChainIdPipe } from './parse-chain-id.pipe';
 
 describe('ParseChainIdPipe', () => {
+  const chainsService = {
+    isSupported: jest.fn((chainId: number) => chainId === 1),
+  } as unknown as ChainsService;
+  const pipe = new ParseChainIdPipe(chainsService);
+
   it('should be defined', () => {
-    expect(new ParseChainIdPipe()).toBeDefined();
+    expect(pipe).toBeDefined();
+  });
+
+  describe('transform', () => {
+    describe('when the chain is in the registry', () => {
+      it('should return the chainId as a number', () => {
+        expect(pipe.transform('1', { type: 'param' })).toBe(1);
+      });
+    });
+    describe('when the value is not a number', () => {
+      it('should throw', () => {
+        expect(() => pipe.transform('eth', { type: 'param' })).toThrow(
+          new HttpException('eth is not a valid chainId', 400),
+        );
+      });
+    });
+    describe('when the chain is not in the registry', () => {
+      it('should throw', () => {
+        expect(() => pipe.transform('2', { type: 'param' })).toThrow(
+          new HttpException('2 is not a supported chainId', 400),
+        );
+      });
+    });
   });
 });
@@ -5,29 +5,29 @@ import {
   Injectable,
   PipeTransform,
 } from '@nestjs/common';
-import { ChainIds } from '../constants/ChainIds';
+import { ChainsService } from '../../chains/chains.service';
 
 @Injectable()
-export class ParseChainIdPipe implements PipeTransform {
+export class ParseChainIdPipe implements PipeTransform<string, number> {
+  constructor(private readonly chainsService: ChainsService) {}
+
   transform(value: string, metadata: ArgumentMetadata) {
-    const valueAsNumber = parseInt(value);
+    const valueAsNumber = Number(value);
 
-    if (isNaN(valueAsNumber)) {
+    if (!Number.isInteger(valueAsNumber)) {
       throw new HttpException(
         `${value} is not a valid chainId`,
         HttpStatus.BAD_REQUEST,
       );
     }
 
-    const hasValue = Object.values(ChainIds).includes(valueAsNumber);
-
-    if (!hasValue) {
+    if (!this.chainsService.isSupported(valueAsNumber)) {
       throw new HttpException(
         `${valueAsNumber} is not a supported chainId`,
         HttpStatus.BAD_REQUEST,
       );
     }
 
-    return value;
+    return valueAsNumber;
   }
 }
@@ -0,0 +1,25 @@
+import { HttpException } from '@nestjs/common';
+import { ParseTokenIdPipe } from './parse-token-id.pipe';
+
+describe('ParseTokenIdPipe', () => {
+  const pipe = new ParseTokenIdPipe();
+
+  it('should be defined', () => {
+    expect(pipe).toBeDefined();
+  });
+
+  describe('transform', () => {
+    describe('when the tokenId is a uint256', () => {
+      it('should return it as a string without leading zeros', () => {
+        expect(pipe.transform('007')).toEqual('7');
+      });
+    });
+    describe('when the tokenId is not a uint256', () => {
+      it('should throw', () => {
+        expect(() => pipe.transform('-1')).toThrow(
+          new HttpException('-1 is not a valid uint256 tokenId', 400),
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  PipeTransform,
+} from '@nestjs/common';
+import { isUint256, normalizeUint256 } from '../utils/ethereum.util';
+
+@Injectable()
+export class ParseTokenIdPipe implements PipeTransform<string, string> {
+  transform(value: string) {
+    if (!isUint256(value)) {
+      throw new HttpException(
+        `${value} is not a valid uint256 tokenId`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return normalizeUint256(value);
+  }
+}
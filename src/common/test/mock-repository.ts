@@ -1,17 +1,68 @@
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { EntityClassOrSchema } from '@nestjs/typeorm/dist/interfaces/entity-class-or-schema.type';
-import { Repository } from 'typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
 
 export type MockRepository<T = any> = Partial<
   Record<keyof Repository<T>, jest.Mock>
 >;
 
+export type MockQueryBuilder<T = any> = Partial<
+  Record<keyof SelectQueryBuilder<T>, jest.Mock>
+>;
+
+// Every builder method returns the builder itself so calls can be chained,
+// terminal methods such as getManyAndCount are left for tests to mock
+export const createMockQueryBuilder = <T = any>(): MockQueryBuilder<T> => {
+  const queryBuilder: MockQueryBuilder<T> = {};
+  const chainable: (keyof SelectQueryBuilder<T>)[] = [
+    'select',
+    'addSelect',
+    'leftJoinAndSelect',
+    'loadRelationCountAndMap',
+    'innerJoin',
+    'withDeleted',
+    'where',
+    'andWhere',
+    'groupBy',
+    'having',
+    'orderBy',
+    'addOrderBy',
+    'setParameter',
+    'setParameters',
+    'setQueryRunner',
+    'skip',
+    'take',
+    'offset',
+    'limit',
+    'from',
+  ];
+  chainable.forEach((method) => {
+    queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+  });
+  queryBuilder.getQuery = jest.fn().mockReturnValue('');
+  queryBuilder.insert = jest.fn();
+  queryBuilder.delete = jest.fn();
+  queryBuilder.execute = jest.fn();
+  queryBuilder.getOne = jest.fn();
+  queryBuilder.getMany = jest.fn();
+  queryBuilder.getManyAndCount = jest.fn();
+  queryBuilder.stream = jest.fn();
+  return queryBuilder;
+};
+
 const createMockRepository = <T = any>(): MockRepository<T> => ({
   find: jest.fn(),
+  findAndCount: jest.fn(),
   findOne: jest.fn(),
   create: jest.fn(),
   save: jest.fn(),
   preload: jest.fn(),
+  remove: jest.fn(),
+  delete: jest.fn(),
+  softDelete: jest.fn(),
+  restore: jest.fn(),
+  update: jest.fn(),
+  createQueryBuilder: jest.fn(),
 });
 
 export const createMockRepositoryProvider = <T = any>(
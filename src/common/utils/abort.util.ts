@@ -0,0 +1,30 @@
+// @types/node 16 leaves the EventTarget methods off AbortSignal, though Node implements them
+type ListenableAbortSignal = AbortSignal & {
+  addEventListener(
+    type: 'abort',
+    listener: () => void,
+    options?: { once?: boolean },
+  ): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+};
+
+/**
+ * Calls the listener once the signal aborts, right away if it already has.
+ * Returns a function that stops listening.
+ */
+export const onAbort = (
+  signal: AbortSignal | undefined,
+  listener: () => void,
+): (() => void) => {
+  if (!signal) {
+    return () => undefined;
+  }
+  if (signal.aborted) {
+    listener();
+    return () => undefined;
+  }
+
+  const target = signal as ListenableAbortSignal;
+  target.addEventListener('abort', listener, { once: true });
+  return () => target.removeEventListener('abort', listener);
+};
@@ -0,0 +1,70 @@
+import {
+  CsvParseError,
+  formatCsvRow,
+  parseCsv,
+  parseCsvRecords,
+} from './csv.util';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('a,b\r\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+  it('should keep commas, quotes and line breaks in quoted fields', () => {
+    expect(parseCsv('"Shipwreck, Dark","Say ""hi""\nthere"')).toEqual([
+      ['Shipwreck, Dark', 'Say "hi"\nthere'],
+    ]);
+  });
+  it('should skip blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa\n\n1\n')).toEqual([['a'], ['1']]);
+  });
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,\n')).toEqual([['a', '', '']]);
+  });
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('a\n"b,c\nd')).toThrow(
+      new CsvParseError('the quoted field starting on line 2 is never closed'),
+    );
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('should map each row onto the header', () => {
+    expect(parseCsvRecords(' title ,brand\nRoast,Buddy Brew')).toEqual([
+      { title: 'Roast', brand: 'Buddy Brew' },
+    ]);
+  });
+  it('should reject rows with a different number of fields', () => {
+    expect(() => parseCsvRecords('title,brand\nRoast')).toThrow(
+      'Invalid CSV: row 1 has 1 fields, expected 2',
+    );
+  });
+  it('should return nothing for an empty file', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('should quote the fields that need it', () => {
+    expect(formatCsvRow(['Shipwreck, Dark', 'Say "hi"', 'plain'])).toBe(
+      '"Shipwreck, Dark","Say ""hi""",plain\r\n',
+    );
+  });
+  it('should write missing values, dates and objects', () => {
+    expect(
+      formatCsvRow([
+        null,
+        undefined,
+        3,
+        new Date('2026-10-19T00:00:00.000Z'),
+        { coffeeId: 1 },
+      ]),
+    ).toBe(',,3,2026-10-19T00:00:00.000Z,"{""coffeeId"":1}"\r\n');
+  });
+  it('should be read back by parseCsv', () => {
+    const fields = ['a\nb', '"', ','];
+    expect(parseCsv(formatCsvRow(fields))).toEqual([fields]);
+  });
+});
@@ -0,0 +1,112 @@
+export const CSV_CONTENT_TYPE = 'text/csv';
+
+export class CsvParseError extends Error {
+  constructor(reason: string) {
+    super(`Invalid CSV: ${reason}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Splits RFC 4180 CSV into rows of fields: quoted fields may hold commas, line breaks and "" for a quote.
+ * Blank lines are skipped, so a trailing newline or spacer row does not become an empty record.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // A byte order mark is common in spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new CsvParseError(
+      `the quoted field starting on line ${quoteLine} is never closed`,
+    );
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Reads CSV whose first row names the columns, one object per following row.
+ * Rows are numbered from 1 in errors, not counting the header.
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((column) => column.trim());
+  return rows.map((fields, index) => {
+    if (fields.length !== columns.length) {
+      throw new CsvParseError(
+        `row ${index + 1} has ${fields.length} fields, expected ${
+          columns.length
+        }`,
+      );
+    }
+    return columns.reduce<Record<string, string>>((record, column, i) => {
+      record[column] = fields[i];
+      return record;
+    }, {});
+  });
+};
+
+const toCsvField = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const field =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+/**
+ * Writes one RFC 4180 line, the reverse of parseCsv. Missing values are left empty,
+ * dates are written in ISO 8601 and other objects as JSON.
+ */
+export const formatCsvRow = (fields: unknown[]) =>
+  `${fields.map(toCsvField).join(',')}\r\n`;
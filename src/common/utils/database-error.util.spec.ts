@@ -0,0 +1,29 @@
+import { HttpStatus } from '@nestjs/common';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+import { mapDatabaseError } from './database-error.util';
+
+describe('mapDatabaseError', () => {
+  const queryFailed = (code: string) =>
+    new QueryFailedError('INSERT', [], { code, constraint: 'UQ_name' });
+
+  it('should map constraint violations to client errors', () => {
+    expect(mapDatabaseError(queryFailed('23505'))).toEqual(
+      expect.objectContaining({
+        statusCode: HttpStatus.CONFLICT,
+        details: { constraint: 'UQ_name' },
+      }),
+    );
+    expect(mapDatabaseError(queryFailed('23503'))).toEqual(
+      expect.objectContaining({
+        statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+      }),
+    );
+    expect(
+      mapDatabaseError(new EntityNotFoundError('Coffee', { id: 1 })),
+    ).toEqual(expect.objectContaining({ statusCode: HttpStatus.NOT_FOUND }));
+  });
+  it('should leave other errors unmapped', () => {
+    expect(mapDatabaseError(queryFailed('57014'))).toBeUndefined();
+    expect(mapDatabaseError(new Error('db down'))).toBeUndefined();
+  });
+});
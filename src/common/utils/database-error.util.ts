@@ -0,0 +1,45 @@
+import { HttpStatus } from '@nestjs/common';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+
+export interface MappedDatabaseError {
+  statusCode: HttpStatus;
+  message: string;
+  details: unknown;
+}
+
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+const PG_UNIQUE_VIOLATION = '23505';
+const PG_FOREIGN_KEY_VIOLATION = '23503';
+
+/**
+ * The client-facing status of database errors a request can cause, undefined for the ones it cannot
+ */
+export const mapDatabaseError = (
+  exception: unknown,
+): MappedDatabaseError | undefined => {
+  if (exception instanceof EntityNotFoundError) {
+    return {
+      statusCode: HttpStatus.NOT_FOUND,
+      message: 'Resource not found',
+      details: null,
+    };
+  }
+  if (exception instanceof QueryFailedError) {
+    const { code, constraint } = exception.driverError ?? {};
+    if (code === PG_UNIQUE_VIOLATION) {
+      return {
+        statusCode: HttpStatus.CONFLICT,
+        message: 'A record with the same unique value already exists',
+        details: { constraint },
+      };
+    }
+    if (code === PG_FOREIGN_KEY_VIOLATION) {
+      return {
+        statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+        message: 'The change would break a reference between records',
+        details: { constraint },
+      };
+    }
+  }
+  return undefined;
+};
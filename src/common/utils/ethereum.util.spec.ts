@@ -0,0 +1,115 @@
+import {
+  decodeAbiString,
+  encodeUint256,
+  hexToDecimal,
+  isAddress,
+  isUint256,
+  normalizeUint256,
+  toChecksumAddress,
+} from './ethereum.util';
+
+// Test vectors from EIP-55
+const CHECKSUMMED = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+describe('ethereum utils', () => {
+  describe('toChecksumAddress', () => {
+    it('should produce the EIP-55 checksum', () => {
+      CHECKSUMMED.forEach((address) => {
+        expect(toChecksumAddress(address.toLowerCase())).toEqual(address);
+      });
+    });
+  });
+
+  describe('isAddress', () => {
+    describe('when the address is checksummed', () => {
+      it('should accept a valid checksum', () => {
+        CHECKSUMMED.forEach((address) => expect(isAddress(address)).toBe(true));
+      });
+      it('should reject an invalid checksum', () => {
+        expect(isAddress('0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed')).toBe(
+          false,
+        );
+      });
+    });
+    describe('when the address has no checksum', () => {
+      it('should accept all lowercase or uppercase', () => {
+        expect(isAddress(CHECKSUMMED[0].toLowerCase())).toBe(true);
+        expect(isAddress(`0x${CHECKSUMMED[0].slice(2).toUpperCase()}`)).toBe(
+          true,
+        );
+      });
+    });
+    describe('when the value is not an address', () => {
+      it('should reject it', () => {
+        expect(isAddress('0x123')).toBe(false);
+        expect(isAddress(1)).toBe(false);
+      });
+    });
+  });
+
+  describe('isUint256', () => {
+    it('should accept values up to 2^256 - 1', () => {
+      expect(isUint256('0')).toBe(true);
+      expect(
+        isUint256(
+          '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+        ),
+      ).toBe(true);
+    });
+    it('should reject overflowing, negative and non decimal values', () => {
+      expect(
+        isUint256(
+          '115792089237316195423570985008687907853269984665640564039457584007913129639936',
+        ),
+      ).toBe(false);
+      expect(isUint256('-1')).toBe(false);
+      expect(isUint256('0x1')).toBe(false);
+      expect(isUint256(1)).toBe(false);
+    });
+  });
+
+  describe('normalizeUint256', () => {
+    it('should strip leading zeros', () => {
+      expect(normalizeUint256('00042')).toEqual('42');
+      expect(normalizeUint256('000')).toEqual('0');
+    });
+  });
+
+  describe('encodeUint256', () => {
+    it('should left pad the hex value to 32 bytes', () => {
+      expect(encodeUint256('255')).toEqual(`${'0'.repeat(62)}ff`);
+      expect(
+        encodeUint256(
+          '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+        ),
+      ).toEqual('f'.repeat(64));
+    });
+  });
+
+  describe('hexToDecimal', () => {
+    it('should convert quantities beyond the safe integer range', () => {
+      expect(hexToDecimal('0x0')).toEqual('0');
+      expect(hexToDecimal('0x10')).toEqual('16');
+      expect(hexToDecimal('0x1000000000000000000')).toEqual(
+        '4722366482869645213696',
+      );
+    });
+  });
+
+  describe('decodeAbiString', () => {
+    it('should read the string after the offset and length words', () => {
+      const text = Buffer.from('ipfs://token/1').toString('hex');
+      const encoded =
+        '0x' +
+        (32).toString(16).padStart(64, '0') +
+        (14).toString(16).padStart(64, '0') +
+        text.padEnd(64, '0');
+      expect(decodeAbiString(encoded)).toEqual('ipfs://token/1');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const UINT256_PATTERN = /^\d+$/;
+const UINT256_MAX =
+  '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+/**
+ * EIP-55: a hex letter is uppercase when the matching nibble of keccak256(lowercase address) is >= 8
+ */
+export const toChecksumAddress = (address: string) => {
+  const lowercase = address.slice(2).toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lowercase)));
+  const checksummed = [...lowercase]
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join('');
+  return `0x${checksummed}`;
+};
+
+/**
+ * All-lowercase and all-uppercase addresses carry no checksum and are accepted as-is,
+ * mixed case must match the EIP-55 checksum
+ */
+export const isAddress = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+    return false;
+  }
+  const hex = value.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true;
+  }
+  return toChecksumAddress(value) === value;
+};
+
+/**
+ * Token ids are uint256 and overflow a JS number, so they are kept as decimal strings without leading zeros
+ */
+export const normalizeUint256 = (value: string) =>
+  value.replace(/^0+(?=\d)/, '');
+
+export const isUint256 = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !UINT256_PATTERN.test(value)) {
+    return false;
+  }
+  const normalized = normalizeUint256(value);
+  return (
+    normalized.length < UINT256_MAX.length ||
+    (normalized.length === UINT256_MAX.length && normalized <= UINT256_MAX)
+  );
+};
+
+// Schoolbook base conversion, uint256 values do not fit a JS number and BigInt is not in our target
+const convertBase = (digits: string, fromBase: number, toBase: number) => {
+  let result = [0];
+  for (const digit of digits) {
+    let carry = parseInt(digit, fromBase);
+    result = result.map((value) => {
+      const next = value * fromBase + carry;
+      carry = Math.floor(next / toBase);
+      return next % toBase;
+    });
+    while (carry > 0) {
+      result.push(carry % toBase);
+      carry = Math.floor(carry / toBase);
+    }
+  }
+  return result
+    .reverse()
+    .map((value) => value.toString(toBase))
+    .join('');
+};
+
+/**
+ * Encodes a uint256 decimal string as a 32 byte ABI word
+ */
+export const encodeUint256 = (value: string) =>
+  convertBase(value, 10, 16).padStart(64, '0');
+
+/**
+ * Decodes a 0x prefixed quantity, as returned by JSON-RPC, into a decimal string
+ */
+export const hexToDecimal = (hex: string) =>
+  convertBase(hex.replace(/^0x/, '') || '0', 16, 10);
+
+/**
+ * Decodes an ABI encoded `string` return value: an offset word, a length word, then the utf8 bytes
+ */
+export const decodeAbiString = (hex: string) => {
+  const data = hex.replace(/^0x/, '');
+  const offset = parseInt(data.slice(0, 64), 16) * 2;
+  const length = parseInt(data.slice(offset, offset + 64), 16) * 2;
+  return Buffer.from(
+    data.slice(offset + 64, offset + 64 + length),
+    'hex',
+  ).toString('utf8');
+};
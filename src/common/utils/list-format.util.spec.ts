@@ -0,0 +1,82 @@
+import { HttpStatus } from '@nestjs/common';
+import { Readable } from 'stream';
+import {
+  ListFormat,
+  ListStreamOptions,
+  negotiateListFormat,
+  streamList,
+} from './list-format.util';
+
+describe('negotiateListFormat', () => {
+  it('should default to JSON', () => {
+    expect(negotiateListFormat(undefined)).toBe(ListFormat.Json);
+    expect(negotiateListFormat('*/*')).toBe(ListFormat.Json);
+    expect(negotiateListFormat('application/*')).toBe(ListFormat.Json);
+  });
+  it('should pick the requested format', () => {
+    expect(negotiateListFormat('text/csv')).toBe(ListFormat.Csv);
+    expect(negotiateListFormat('text/*')).toBe(ListFormat.Csv);
+    expect(negotiateListFormat('application/x-ndjson')).toBe(ListFormat.Ndjson);
+  });
+  it('should follow the quality values', () => {
+    expect(negotiateListFormat('application/json;q=0.5, text/csv')).toBe(
+      ListFormat.Csv,
+    );
+    expect(negotiateListFormat('application/json;q=0, */*')).toBe(
+      ListFormat.Csv,
+    );
+  });
+  it('should answer 406 when nothing is acceptable', () => {
+    expect(() => negotiateListFormat('application/xml')).toThrow(
+      expect.objectContaining({ status: HttpStatus.NOT_ACCEPTABLE }),
+    );
+    expect(() => negotiateListFormat('*/*;q=0')).toThrow(
+      expect.objectContaining({ status: HttpStatus.NOT_ACCEPTABLE }),
+    );
+  });
+});
+
+describe('streamList', () => {
+  const rows = [
+    { id: 1, title: 'Roast, Dark' },
+    { id: 2, title: 'Shipwreck' },
+  ];
+  const options: ListStreamOptions<typeof rows[number]> = {
+    filename: 'coffees',
+    columns: { id: (row) => row.id, title: (row) => row.title },
+  };
+  const read = async (stream: Readable) => {
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk;
+    }
+    return text;
+  };
+
+  it('should write CSV with a header as a download', async () => {
+    const file = streamList(Readable.from(rows), ListFormat.Csv, options);
+    expect(file.getHeaders()).toEqual(
+      expect.objectContaining({
+        type: 'text/csv; charset=utf-8',
+        disposition: 'attachment; filename="coffees.csv"',
+      }),
+    );
+    expect(await read(file.getStream())).toBe(
+      'id,title\r\n1,"Roast, Dark"\r\n2,Shipwreck\r\n',
+    );
+  });
+  it('should write one JSON document per line', async () => {
+    const file = streamList(Readable.from(rows), ListFormat.Ndjson, {
+      ...options,
+      toJson: ({ id }) => ({ id }),
+    });
+    expect(file.getHeaders().type).toBe('application/x-ndjson; charset=utf-8');
+    expect(await read(file.getStream())).toBe('{"id":1}\n{"id":2}\n');
+  });
+  it('should destroy the rows when the response stream is destroyed', async () => {
+    const source = new Readable({ objectMode: true, read: () => undefined });
+    streamList(source, ListFormat.Ndjson, options).getStream().destroy();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(source.destroyed).toBe(true);
+  });
+});
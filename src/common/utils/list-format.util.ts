@@ -0,0 +1,110 @@
+import { HttpException, HttpStatus, StreamableFile } from '@nestjs/common';
+import { pipeline, Readable, Transform } from 'stream';
+import { formatCsvRow } from './csv.util';
+
+export enum ListFormat {
+  Json = 'application/json',
+  Csv = 'text/csv',
+  Ndjson = 'application/x-ndjson',
+}
+
+export type StreamedListFormat = Exclude<ListFormat, ListFormat.Json>;
+
+// In order of preference when the client accepts several equally
+export const LIST_FORMATS = [
+  ListFormat.Json,
+  ListFormat.Csv,
+  ListFormat.Ndjson,
+];
+
+interface MediaRange {
+  type: string;
+  subtype: string;
+  q: number;
+}
+
+const parseAccept = (accept: string): MediaRange[] =>
+  accept.split(',').map((range) => {
+    const [mediaType, ...params] = range
+      .split(';')
+      .map((part) => part.trim().toLowerCase());
+    const [type, subtype = ''] = mediaType.split('/');
+    const q = params.find((param) => param.startsWith('q='));
+    return { type, subtype, q: q === undefined ? 1 : Number(q.slice(2)) };
+  });
+
+// The most specific range that matches decides, so "text/csv;q=0" turns CSV down even with */*
+const qualityOf = (format: ListFormat, ranges: MediaRange[]) => {
+  const [type, subtype] = format.split('/');
+  const range =
+    ranges.find((r) => r.type === type && r.subtype === subtype) ??
+    ranges.find((r) => r.type === type && r.subtype === '*') ??
+    ranges.find((r) => r.type === '*' && r.subtype === '*');
+  return range && range.q > 0 ? range.q : 0;
+};
+
+/**
+ * Picks how to send a list from the Accept header, JSON when it is missing. Throws a 406 when none of the formats is acceptable.
+ */
+export const negotiateListFormat = (accept?: string): ListFormat => {
+  if (!accept?.trim()) {
+    return ListFormat.Json;
+  }
+  const ranges = parseAccept(accept);
+  const [best] = LIST_FORMATS.map((format) => ({
+    format,
+    q: qualityOf(format, ranges),
+  }))
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q);
+  if (!best) {
+    throw new HttpException(
+      `Cannot respond with ${accept}, lists are available as ${LIST_FORMATS.join(
+        ', ',
+      )}`,
+      HttpStatus.NOT_ACCEPTABLE,
+    );
+  }
+  return best.format;
+};
+
+export interface ListStreamOptions<T> {
+  filename: string; // Offered for CSV downloads, without the extension
+  columns: Record<string, (row: T) => unknown>; // CSV header and the value of each cell
+  toJson?: (row: T) => unknown; // Each NDJSON line, the row itself by default
+}
+
+/**
+ * Serializes rows as they are read, without the JSON envelope. Destroying the returned
+ * stream, as the adapter does when the client goes away, destroys `rows` too.
+ */
+export const streamList = <T>(
+  rows: Readable,
+  format: StreamedListFormat,
+  { filename, columns, toJson = (row) => row }: ListStreamOptions<T>,
+): StreamableFile => {
+  const cells = Object.values(columns);
+  const serializer = new Transform({
+    writableObjectMode: true,
+    transform(row: T, encoding, callback) {
+      callback(
+        null,
+        format === ListFormat.Csv
+          ? formatCsvRow(cells.map((cell) => cell(row)))
+          : `${JSON.stringify(toJson(row))}\n`,
+      );
+    },
+  });
+  if (format === ListFormat.Csv) {
+    serializer.push(formatCsvRow(Object.keys(columns)));
+  }
+  // Errors reach the response through the serializer, which pipeline destroys with them
+  pipeline(rows, serializer, () => undefined);
+
+  return new StreamableFile(serializer, {
+    type: `${format}; charset=utf-8`,
+    ...(format === ListFormat.Csv && {
+      disposition: `attachment; filename="${filename}.csv"`,
+    }),
+  });
+};
@@ -0,0 +1,16 @@
+import { TransformFnParams } from 'class-transformer';
+import { toBoolean } from './transform.util';
+
+describe('toBoolean', () => {
+  const transform = (value: unknown) =>
+    toBoolean({ obj: { flag: value }, key: 'flag' } as TransformFnParams);
+
+  it('should read true and false', () => {
+    expect(transform('true')).toBe(true);
+    expect(transform('false')).toBe(false);
+  });
+  it('should leave other values to validation', () => {
+    expect(transform('yes')).toBe('yes');
+    expect(transform(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,10 @@
+import { TransformFnParams } from 'class-transformer';
+
+/**
+ * For boolean query parameters. Reads the raw value, as implicit conversion turns any non-empty string into true,
+ * and leaves anything but 'true' and 'false' for IsBoolean to reject.
+ */
+export const toBoolean = ({ obj, key }: TransformFnParams) => {
+  const value = obj[key];
+  return value === 'true' ? true : value === 'false' ? false : value;
+};
@@ -0,0 +1,57 @@
+import 'reflect-metadata';
+import { Type } from 'class-transformer';
+import { IsInt, IsString, ValidateNested } from 'class-validator';
+import { validateDto } from './validate-dto.util';
+
+class OriginDto {
+  @IsString()
+  readonly country: string;
+}
+
+class BeanDto {
+  @IsString()
+  readonly name: string;
+
+  @IsInt()
+  readonly rating: number;
+
+  @ValidateNested()
+  @Type(() => OriginDto)
+  readonly origin: OriginDto;
+}
+
+describe('validateDto', () => {
+  it('should return the transformed instance of a valid item', async () => {
+    const { value, errors } = await validateDto(BeanDto, {
+      name: 'Arabica',
+      rating: '4',
+      origin: { country: 'Brazil' },
+    });
+    expect(errors).toEqual([]);
+    expect(value).toBeInstanceOf(BeanDto);
+    expect(value).toEqual({
+      name: 'Arabica',
+      rating: 4,
+      origin: { country: 'Brazil' },
+    });
+  });
+
+  it('should list every problem with the nested path', async () => {
+    expect(
+      await validateDto(BeanDto, { rating: 'four', origin: {}, roast: 'dark' }),
+    ).toEqual({
+      errors: [
+        'property roast should not exist',
+        'name must be a string',
+        'rating must be an integer number',
+        'origin.country must be a string',
+      ],
+    });
+  });
+
+  it('should reject items that are not objects', async () => {
+    expect(await validateDto(BeanDto, 'Arabica')).toEqual({
+      errors: ['item must be an object'],
+    });
+  });
+});
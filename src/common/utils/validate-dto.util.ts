@@ -0,0 +1,37 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+export interface ValidatedItem<T> {
+  value?: T;
+  errors: string[];
+}
+
+// Same messages as ValidationPipe, nested properties prefixed with their path
+const flattenErrors = (errors: ValidationError[], path = ''): string[] =>
+  errors.flatMap(({ property, constraints = {}, children = [] }) => [
+    ...Object.values(constraints).map((message) => `${path}${message}`),
+    ...flattenErrors(children, `${path}${property}.`),
+  ]);
+
+/**
+ * Validates one item the way the global ValidationPipe validates a request body,
+ * for payloads whose items must be accepted or rejected one by one
+ */
+export const validateDto = async <T extends object>(
+  cls: ClassConstructor<T>,
+  plain: unknown,
+): Promise<ValidatedItem<T>> => {
+  if (typeof plain !== 'object' || plain === null || Array.isArray(plain)) {
+    return { errors: ['item must be an object'] };
+  }
+  const value = plainToInstance(cls, plain, {
+    enableImplicitConversion: true,
+  });
+  const errors = await validate(value, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  return errors.length
+    ? { errors: flattenErrors(errors) }
+    : { value, errors: [] };
+};
@@ -0,0 +1,48 @@
+import { ExecutionContext, VERSION_NEUTRAL } from '@nestjs/common';
+import { VERSION_METADATA } from '@nestjs/common/constants';
+import { ConfigType } from '@nestjs/config';
+import appConfig from '../../config/app.config';
+
+export type VersioningConfig = ConfigType<typeof appConfig>['versioning'];
+
+export enum ApiVersioningType {
+  Uri = 'uri', // /v2/coffees
+  Header = 'header', // X-API-Version: 2
+}
+
+// Reported for unversioned controllers and requests that did not ask for a version
+export const DEFAULT_API_VERSION = '1';
+
+const URI_VERSION = /^\/v([^/?]+)/;
+
+const declaredVersions = (context: ExecutionContext): unknown[] => {
+  const version =
+    Reflect.getMetadata(VERSION_METADATA, context.getHandler()) ??
+    Reflect.getMetadata(VERSION_METADATA, context.getClass());
+  return version === undefined ? [] : [].concat(version);
+};
+
+/**
+ * The API version a request was routed to
+ */
+export const resolveApiVersion = (
+  context: ExecutionContext,
+  versioning: VersioningConfig,
+): string => {
+  const request = context.switchToHttp().getRequest();
+  const requested =
+    versioning.type === ApiVersioningType.Header
+      ? request.headers[versioning.header.toLowerCase()]
+      : URI_VERSION.exec(request.url)?.[1];
+
+  const versions = declaredVersions(context);
+  if (versions.includes(requested)) {
+    return requested;
+  }
+  const concreteVersion = versions.find(
+    (version) => version !== VERSION_NEUTRAL,
+  );
+  return typeof concreteVersion === 'string'
+    ? concreteVersion
+    : DEFAULT_API_VERSION;
+};
@@ -1,11 +1,23 @@
-export default () => ({
-  environment: process.env.NODE_ENV || 'development',
-  database: {
-    host: process.env.DATABASE_HOST || 'localhost',
-    port: parseInt(process.env.DATABASE_PORT, 10) || 5432,
-    name: process.env.DATABASE_NAME || 'postgres',
-    user: process.env.DATABASE_USER || 'postgres',
-    password: process.env.DATABASE_PASSWORD || 'password',
+import { registerAs } from '@nestjs/config';
+import { DeprecationSchedule } from '../common/decorators/deprecated-version.decorator';
+import { ApiVersioningType } from '../common/versioning/api-versioning';
+import { Environment } from './env.validation';
+
+// Defaults and constraints live in env.validation.ts, which runs before any namespace is loaded
+export default registerAs('app', () => ({
+  environment: process.env.NODE_ENV as Environment,
+  apiKey: process.env.API_KEY,
+  versioning: {
+    type: process.env.API_VERSIONING as ApiVersioningType, // uri (/v2/coffees) or header
+    header: process.env.API_VERSION_HEADER,
   },
-  apiKey: process.env.API_KEY || 'abc123',
-});
+  // Dates of the API versions routes mark with @DeprecatedVersion
+  deprecations: {
+    '1': {
+      since: process.env.API_V1_DEPRECATED_SINCE,
+      sunset: process.env.API_V1_SUNSET,
+    },
+  } as Record<string, DeprecationSchedule>,
+  // Routes can override it with @Timeout(ms)
+  requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS, 10),
+}));
@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  envFilePaths,
+  InvalidConfigError,
+  validateEnv,
+} from './env.validation';
+
+describe('validateEnv', () => {
+  const production = {
+    NODE_ENV: 'production',
+    DATABASE_PASSWORD: 'db-secret',
+    API_KEY: 'bootstrap-secret',
+  };
+
+  const problemsOf = (config: Record<string, unknown>) => {
+    try {
+      validateEnv(config);
+    } catch (err) {
+      if (err instanceof InvalidConfigError) {
+        return err.problems;
+      }
+      throw err;
+    }
+    return [];
+  };
+
+  describe('in development', () => {
+    it('should fill in the defaults', () => {
+      expect(validateEnv({})).toEqual(
+        expect.objectContaining({
+          NODE_ENV: 'development',
+          DATABASE_HOST: 'localhost',
+          DATABASE_PORT: 5432,
+          DATABASE_PASSWORD: 'password',
+          DATABASE_MIGRATIONS_MODE: 'run',
+          API_KEY: 'abc123',
+          REQUEST_TIMEOUT_MS: 3000,
+          LOG_LEVEL: 'info',
+        }),
+      );
+    });
+    it('should convert numbers and keep unknown variables', () => {
+      expect(validateEnv({ DATABASE_PORT: '5433', PATH: '/usr/bin' })).toEqual(
+        expect.objectContaining({ DATABASE_PORT: 5433, PATH: '/usr/bin' }),
+      );
+    });
+  });
+
+  describe('in production', () => {
+    it('should accept explicit secrets and check migrations on boot', () => {
+      expect(validateEnv(production)).toEqual(
+        expect.objectContaining({ DATABASE_MIGRATIONS_MODE: 'check' }),
+      );
+    });
+    it('should require the secrets', () => {
+      expect(problemsOf({ NODE_ENV: 'production' })).toEqual([
+        '"DATABASE_PASSWORD" is required in production',
+        '"API_KEY" is required in production',
+      ]);
+    });
+    it('should refuse the development defaults', () => {
+      expect(
+        problemsOf({
+          ...production,
+          DATABASE_PASSWORD: 'password',
+          API_KEY: 'abc123',
+        }),
+      ).toEqual([
+        '"DATABASE_PASSWORD" must not use the development default',
+        '"API_KEY" must not use the development default',
+      ]);
+    });
+  });
+
+  it('should boot from a copy of .env.template', () => {
+    const template = readFileSync(
+      join(__dirname, '../../.env.template'),
+      'utf8',
+    );
+    const settings = template
+      .split('\n')
+      .filter((line) => /^\w+=/.test(line))
+      .map((line) => line.split('='));
+    expect(problemsOf(Object.fromEntries(settings))).toEqual([]);
+  });
+
+  it('should report every problem at once', () => {
+    expect(() =>
+      validateEnv({
+        DATABASE_PORT: 'postgres',
+        API_VERSIONING: 'query',
+        LOG_LEVEL: 'verbose',
+      }),
+    ).toThrow(/DATABASE_PORT.*\n.*API_VERSIONING.*\n.*LOG_LEVEL/);
+  });
+
+  describe('chains', () => {
+    it('should reject CHAINS that is not JSON', () => {
+      expect(problemsOf({ CHAINS: '[{' })).toEqual([
+        '"CHAINS" must be valid JSON',
+      ]);
+    });
+    it('should reject chains with missing fields', () => {
+      expect(problemsOf({ CHAINS: '[{"chainId":1}]' })).toEqual([
+        '"CHAINS" is invalid: [0].name is required. [0].nativeCurrency is required. [0].blockExplorerUrl is required. [0].rpcUrl is required. [0].testnet is required',
+      ]);
+    });
+    it('should keep valid CHAINS as a string', () => {
+      const chains = JSON.stringify([
+        {
+          chainId: 1,
+          name: 'Ethereum',
+          nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+          blockExplorerUrl: 'https://etherscan.io',
+          rpcUrl: 'https://cloudflare-eth.com',
+          testnet: false,
+        },
+      ]);
+      expect(validateEnv({ CHAINS: chains }).CHAINS).toBe(chains);
+    });
+    it('should validate per chain RPC URLs', () => {
+      expect(problemsOf({ CHAIN_137_RPC_URL: 'polygon' })).toEqual([
+        '"CHAIN_137_RPC_URL" must be a valid uri',
+      ]);
+    });
+  });
+});
+
+describe('envFilePaths', () => {
+  it('should put local overrides first', () => {
+    expect(envFilePaths('test')).toEqual([
+      '.env.test.local',
+      '.env.test',
+      '.env',
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import * as Joi from '@hapi/joi';
+import { LogLevel } from '../common/logging/request-log';
+import { ApiVersioningType } from '../common/versioning/api-versioning';
+import { MigrationsMode } from '../database/database.options';
+
+export enum Environment {
+  Development = 'development',
+  Production = 'production',
+  Test = 'test',
+}
+
+export class InvalidConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join('\n')}`,
+    );
+    this.name = 'InvalidConfigError';
+  }
+}
+
+const inProduction = (then: Joi.Schema, otherwise: Joi.Schema) => ({
+  is: Environment.Production,
+  then,
+  otherwise,
+});
+
+// Development defaults are fine locally, but a production deployment must set its own
+const secret = (developmentDefault: string) =>
+  Joi.string().when(
+    'NODE_ENV',
+    inProduction(
+      Joi.string().required().invalid(developmentDefault).messages({
+        'any.required': '{{#label}} is required in production',
+        'any.invalid': '{{#label}} must not use the development default',
+      }),
+      Joi.string().default(developmentDefault),
+    ),
+  );
+
+const milliseconds = (defaultValue: number) =>
+  Joi.number().integer().positive().default(defaultValue);
+
+const chain = Joi.object({
+  chainId: Joi.number().integer().positive().required(),
+  name: Joi.string().required(),
+  nativeCurrency: Joi.object({
+    name: Joi.string().required(),
+    symbol: Joi.string().required(),
+    decimals: Joi.number().integer().min(0).required(),
+  }).required(),
+  blockExplorerUrl: Joi.string().uri().required(),
+  rpcUrl: Joi.string().uri().required(),
+  testnet: Joi.boolean().required(),
+});
+
+// Kept as a string, it is parsed again by chains.config.ts
+const chainsJson = Joi.string().custom((value, helpers) => {
+  let chains: unknown;
+  try {
+    chains = JSON.parse(value);
+  } catch {
+    return helpers.message({ custom: '{{#label}} must be valid JSON' });
+  }
+  const { error } = Joi.array()
+    .items(chain)
+    .min(1)
+    .validate(chains, { abortEarly: false, errors: { wrap: { label: '' } } });
+  return error
+    ? helpers.message({ custom: `{{#label}} is invalid: ${error.message}` })
+    : value;
+});
+
+export const envSchema = Joi.object({
+  NODE_ENV: Joi.string()
+    .valid(...Object.values(Environment))
+    .default(Environment.Development),
+
+  DATABASE_HOST: Joi.string().hostname().default('localhost'),
+  DATABASE_PORT: Joi.number().port().default(5432),
+  DATABASE_NAME: Joi.string().default('postgres'),
+  DATABASE_USER: Joi.string().default('postgres'),
+  DATABASE_PASSWORD: secret('password'),
+  DATABASE_MIGRATIONS_MODE: Joi.string()
+    .valid(...Object.values(MigrationsMode))
+    .when(
+      'NODE_ENV',
+      inProduction(
+        Joi.string().default(MigrationsMode.Check),
+        Joi.string().default(MigrationsMode.Run),
+      ),
+    ),
+
+  API_KEY: secret('abc123'),
+  API_VERSIONING: Joi.string()
+    .valid(...Object.values(ApiVersioningType))
+    .default(ApiVersioningType.Uri),
+  API_VERSION_HEADER: Joi.string()
+    .pattern(/^[\w-]+$/)
+    .default('X-API-Version'),
+  API_V1_DEPRECATED_SINCE: Joi.string().isoDate().default('2026-10-19'),
+  API_V1_SUNSET: Joi.string().isoDate().default('2027-04-30'),
+  REQUEST_TIMEOUT_MS: milliseconds(3000),
+
+  CHAINS: chainsJson,
+  CHAIN_RPC_TIMEOUT_MS: milliseconds(5000),
+  CHAIN_RPC_CACHE_TTL_MS: milliseconds(5000),
+
+  RATE_LIMIT_LIMIT: Joi.number().integer().positive().default(100),
+  RATE_LIMIT_IP_LIMIT: Joi.number().integer().positive().default(1000),
+  RATE_LIMIT_WINDOW_MS: milliseconds(60000),
+
+  HEALTH_DATABASE_TIMEOUT_MS: milliseconds(1000),
+  HEALTH_MIGRATIONS_TIMEOUT_MS: milliseconds(2000),
+  HEALTH_CHAIN_TIMEOUT_MS: milliseconds(2000),
+  // Time for load balancers to see readiness go down, nothing routes to a local process
+  HEALTH_SHUTDOWN_DELAY_MS: Joi.number()
+    .integer()
+    .min(0)
+    .when(
+      'NODE_ENV',
+      inProduction(Joi.number().default(5000), Joi.number().default(0)),
+    ),
+
+  COFFEES_REQUIRE_IF_MATCH: Joi.string()
+    .valid('true', 'false')
+    .default('false'),
+  COFFEES_TRASH_RETENTION_DAYS: Joi.number().integer().min(0).default(30),
+
+  HTTP_CACHE_ENABLED: Joi.string().valid('true', 'false').default('false'),
+  HTTP_CACHE_MAX_ENTRIES: Joi.number().integer().positive().default(1000),
+
+  LOG_LEVEL: Joi.string()
+    .valid(...Object.values(LogLevel))
+    .default(LogLevel.Info),
+  LOG_REDACT_HEADERS: Joi.string()
+    .allow('')
+    .default('authorization,cookie,set-cookie'),
+}).pattern(/^CHAIN_\d+_RPC_URL$/, Joi.string().uri());
+
+/**
+ * Where ConfigModule looks for settings. The first file to define a variable wins, and real environment variables beat them all
+ */
+export const envFilePaths = (
+  nodeEnv = process.env.NODE_ENV || 'development',
+) => [`.env.${nodeEnv}.local`, `.env.${nodeEnv}`, '.env'];
+
+/**
+ * Used as ConfigModule's validate function, so the process refuses to boot with every problem listed at once
+ */
+export const validateEnv = (config: Record<string, unknown>) => {
+  const { error, value } = envSchema.validate(config, {
+    abortEarly: false,
+    allowUnknown: true, // The rest of the environment (PATH, HOME...)
+  });
+  if (error) {
+    throw new InvalidConfigError(error.details.map((detail) => detail.message));
+  }
+  return value as Record<string, unknown>;
+};
@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('httpCache', () => ({
+  // ETags and 304s keep working when the in-memory response cache is off
+  enabled: process.env.HTTP_CACHE_ENABLED === 'true',
+  maxEntries: parseInt(process.env.HTTP_CACHE_MAX_ENTRIES, 10),
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+import { LogLevel } from '../common/logging/request-log';
+
+export default registerAs('logging', () => ({
+  level: process.env.LOG_LEVEL as LogLevel,
+  // Header values replaced with [REDACTED] in access logs
+  redactHeaders: process.env.LOG_REDACT_HEADERS.split(',')
+    .map((header) => header.trim().toLowerCase())
+    .filter(Boolean),
+}));
@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+import { MigrationsMode } from './database.options';
+
+export default registerAs('database', () => ({
+  host: process.env.DATABASE_HOST,
+  port: parseInt(process.env.DATABASE_PORT, 10),
+  name: process.env.DATABASE_NAME,
+  user: process.env.DATABASE_USER,
+  password: process.env.DATABASE_PASSWORD,
+  // 'run' applies pending migrations on boot, 'check' refuses to boot while any are pending
+  migrationsMode: process.env.DATABASE_MIGRATIONS_MODE as MigrationsMode,
+}));
@@ -0,0 +1,53 @@
+import { EventEmitter } from 'events';
+import { DataSource } from 'typeorm';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+import { DatabaseMetrics } from './database.metrics';
+
+describe('DatabaseMetrics', () => {
+  let registry: MetricsRegistry;
+  let pool: EventEmitter;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    pool = Object.assign(new EventEmitter(), {
+      totalCount: 4,
+      idleCount: 1,
+      waitingCount: 2,
+      options: { max: 10 },
+    });
+    new DatabaseMetrics(
+      { driver: { master: pool } } as unknown as DataSource,
+      registry,
+    ).onModuleInit();
+  });
+
+  it('should report pool usage', () => {
+    const metrics = registry.render();
+    expect(metrics).toContain('typeorm_pool_connections{state="idle"} 1');
+    expect(metrics).toContain('typeorm_pool_connections{state="active"} 3');
+    expect(metrics).toContain('typeorm_pool_waiting_requests 2');
+    expect(metrics).toContain('typeorm_pool_max_connections 10');
+  });
+
+  it('should time queries on checked out connections once', async () => {
+    const client = {
+      query: jest
+        .fn()
+        .mockResolvedValueOnce({ rows: [] })
+        .mockRejectedValueOnce(new Error('syntax error')),
+    };
+    pool.emit('acquire', client);
+    pool.emit('acquire', client);
+
+    await client.query('SELECT 1', []);
+    await expect(client.query('drop table coffee', [])).rejects.toThrow();
+
+    const metrics = registry.render();
+    expect(metrics).toContain(
+      'typeorm_query_duration_seconds_count{operation="SELECT",status="ok"} 1',
+    );
+    expect(metrics).toContain(
+      'typeorm_query_duration_seconds_count{operation="OTHER",status="error"} 1',
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { DataSource } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import { Histogram } from '../metrics/metric';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+
+// The parts of pg's Pool and Client the metrics read
+interface PgPool extends EventEmitter {
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  options: { max: number };
+}
+interface PgClient {
+  query: (...args: unknown[]) => unknown;
+}
+
+const OPERATIONS = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+const operationOf = (query: unknown) => {
+  const text = typeof query === 'string' ? query : '';
+  const keyword = /^\s*(\w+)/.exec(text)?.[1]?.toUpperCase();
+  return OPERATIONS.includes(keyword) ? keyword : 'OTHER';
+};
+
+/**
+ * Times every query on the pool's connections, whether it comes from a repository,
+ * a query builder or a query runner, and reports pool usage on each scrape
+ */
+@Injectable()
+export class DatabaseMetrics implements OnModuleInit {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly registry: MetricsRegistry,
+  ) {}
+
+  onModuleInit() {
+    const pool = (this.dataSource.driver as PostgresDriver).master as PgPool;
+    const queryDuration = this.registry.histogram({
+      name: 'typeorm_query_duration_seconds',
+      help: 'Time to run database queries, its _count is the number of queries',
+      labelNames: ['operation', 'status'],
+    });
+    this.registry.gauge({
+      name: 'typeorm_pool_connections',
+      help: 'Open database connections by state',
+      labelNames: ['state'],
+      collect: (gauge) => {
+        gauge.set({ state: 'idle' }, pool.idleCount);
+        gauge.set({ state: 'active' }, pool.totalCount - pool.idleCount);
+      },
+    });
+    this.registry.gauge({
+      name: 'typeorm_pool_waiting_requests',
+      help: 'Queries waiting for a free database connection',
+      collect: (gauge) => gauge.set({}, pool.waitingCount),
+    });
+    this.registry.gauge({
+      name: 'typeorm_pool_max_connections',
+      help: 'Size limit of the database connection pool',
+      collect: (gauge) => gauge.set({}, pool.options.max),
+    });
+
+    // Connections are reused, so each one is only wrapped the first time it is checked out
+    const instrumented = new WeakSet<PgClient>();
+    pool.on('acquire', (client: PgClient) => {
+      if (!instrumented.has(client)) {
+        instrumented.add(client);
+        this.instrument(client, queryDuration);
+      }
+    });
+  }
+
+  private instrument(client: PgClient, queryDuration: Histogram) {
+    const query = client.query;
+    client.query = function (this: PgClient, ...args: unknown[]) {
+      const endTimer = queryDuration.startTimer({
+        operation: operationOf(args[0]),
+      });
+      const result = query.apply(this, args);
+      // TypeORM awaits queries, callback and stream queries are left alone
+      if (typeof (result as PromiseLike<unknown>)?.then === 'function') {
+        (result as PromiseLike<unknown>).then(
+          () => endTimer({ status: 'ok' }),
+          () => endTimer({ status: 'error' }),
+        );
+      }
+      return result;
+    };
+  }
+}
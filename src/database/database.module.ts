@@ -1,7 +1,10 @@
 import { DynamicModule, Module } from '@nestjs/common';
 import { DataSource, DataSourceOptions } from 'typeorm';
+import { DatabaseMetrics } from './database.metrics';
 
-@Module({})
+@Module({
+  providers: [DatabaseMetrics],
+})
 export class DatabaseModule {
   static register(options: DataSourceOptions): DynamicModule {
     return {
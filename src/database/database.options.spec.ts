@@ -0,0 +1,78 @@
+import { DataSource } from 'typeorm';
+import {
+  assertNoPendingMigrations,
+  createDataSourceOptions,
+  DatabaseConfig,
+  MigrationsMode,
+  PendingMigrationsError,
+} from './database.options';
+
+describe('database options', () => {
+  const database: DatabaseConfig = {
+    host: 'db',
+    port: 5433,
+    name: 'coffees',
+    user: 'barista',
+    password: 'secret',
+    migrationsMode: MigrationsMode.Check,
+  };
+
+  describe('createDataSourceOptions', () => {
+    describe('when building from the app config', () => {
+      it('should map the connection settings and never synchronize', () => {
+        expect(createDataSourceOptions(database)).toEqual(
+          expect.objectContaining({
+            type: 'postgres',
+            host: 'db',
+            port: 5433,
+            username: 'barista',
+            password: 'secret',
+            database: 'coffees',
+            synchronize: false,
+          }),
+        );
+      });
+      it('should include every migration', () => {
+        expect(createDataSourceOptions(database).migrations).toHaveLength(5);
+      });
+    });
+    describe('when migrations mode is run', () => {
+      it('should run migrations on boot', () => {
+        expect(
+          createDataSourceOptions({
+            ...database,
+            migrationsMode: MigrationsMode.Run,
+          }).migrationsRun,
+        ).toBe(true);
+      });
+    });
+    describe('when migrations mode is check', () => {
+      it('should not run migrations on boot', () => {
+        expect(createDataSourceOptions(database).migrationsRun).toBe(false);
+      });
+    });
+  });
+
+  describe('assertNoPendingMigrations', () => {
+    describe('when migrations are pending', () => {
+      it('should throw', async () => {
+        const dataSource = {
+          showMigrations: jest.fn().mockResolvedValue(true),
+        };
+        await expect(
+          assertNoPendingMigrations(dataSource as unknown as DataSource),
+        ).rejects.toBeInstanceOf(PendingMigrationsError);
+      });
+    });
+    describe('when the schema is up to date', () => {
+      it('should resolve', async () => {
+        const dataSource = {
+          showMigrations: jest.fn().mockResolvedValue(false),
+        };
+        await expect(
+          assertNoPendingMigrations(dataSource as unknown as DataSource),
+        ).resolves.toBeUndefined();
+      });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { DataSource, DataSourceOptions } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { ApiKey } from '../api-keys/entities/api-key.entity';
+import { Coffee } from '../coffees/entities/coffee.entity';
+import { Flavour } from '../coffees/entities/flavour.entity';
+import { ConfigType } from '@nestjs/config';
+import { Event } from '../events/entities/event.entity';
+import { Phygital } from '../phygitals/entities/phygital.entity';
+import { InitialSchema1660000000000 } from './migrations/1660000000000-InitialSchema';
+import { AddPhygitals1660100000000 } from './migrations/1660100000000-AddPhygitals';
+import { AddApiKeys1660200000000 } from './migrations/1660200000000-AddApiKeys';
+import { AddCoffeeVersion1660300000000 } from './migrations/1660300000000-AddCoffeeVersion';
+import { AddCoffeeDeletedAt1660400000000 } from './migrations/1660400000000-AddCoffeeDeletedAt';
+import databaseConfig from './database.config';
+
+export type DatabaseConfig = ConfigType<typeof databaseConfig>;
+
+export enum MigrationsMode {
+  Run = 'run', // Apply pending migrations while booting
+  Check = 'check', // Refuse to boot while migrations are pending
+}
+
+export class PendingMigrationsError extends Error {
+  constructor() {
+    super(
+      'The database has pending migrations. Run `npm run migration:run` or set DATABASE_MIGRATIONS_MODE=run',
+    );
+    this.name = 'PendingMigrationsError';
+  }
+}
+
+/**
+ * Shared by the app and typeorm-cli.config.ts so both talk to the same database with the same schema
+ */
+export const createDataSourceOptions = (
+  database: DatabaseConfig,
+): PostgresConnectionOptions => ({
+  type: 'postgres',
+  host: database.host,
+  port: database.port,
+  username: database.user,
+  password: database.password,
+  database: database.name,
+  entities: [Coffee, Flavour, Event, Phygital, ApiKey],
+  migrations: [
+    InitialSchema1660000000000,
+    AddPhygitals1660100000000,
+    AddApiKeys1660200000000,
+    AddCoffeeVersion1660300000000,
+    AddCoffeeDeletedAt1660400000000,
+  ],
+  migrationsRun: database.migrationsMode === MigrationsMode.Run,
+  synchronize: false, // The schema is owned by src/database/migrations
+});
+
+export const assertNoPendingMigrations = async (dataSource: DataSource) => {
+  if (await dataSource.showMigrations()) {
+    throw new PendingMigrationsError();
+  }
+};
+
+/**
+ * Used as TypeOrmModule's dataSourceFactory. When migrations are not run on boot, they must already be applied
+ */
+export const createDataSource = async (options: DataSourceOptions) => {
+  const dataSource = await new DataSource(options).initialize();
+  if (!options.migrationsRun) {
+    await assertNoPendingMigrations(dataSource);
+  }
+  return dataSource;
+};
@@ -0,0 +1,60 @@
+import { QueryRunner } from 'typeorm';
+import { InitialSchema1660000000000 } from './1660000000000-InitialSchema';
+
+describe('InitialSchema1660000000000', () => {
+  let queryRunner: { hasTable: jest.Mock; query: jest.Mock };
+  const statements = () =>
+    queryRunner.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' '));
+  const indexOf = (pattern: RegExp) =>
+    statements().findIndex((sql) => pattern.test(sql));
+
+  beforeEach(() => {
+    queryRunner = { hasTable: jest.fn(), query: jest.fn() };
+  });
+
+  const up = () =>
+    new InitialSchema1660000000000().up(queryRunner as unknown as QueryRunner);
+
+  describe('when synchronize already built the schema', () => {
+    beforeEach(() => queryRunner.hasTable.mockResolvedValue(true));
+
+    it('should add createdAt to events before indexing it', async () => {
+      await up();
+      const addColumn = indexOf(
+        /ALTER TABLE "event" ADD COLUMN IF NOT EXISTS "createdAt"/,
+      );
+      expect(addColumn).toBeGreaterThanOrEqual(0);
+      expect(addColumn).toBeLessThan(
+        indexOf(/CREATE INDEX IF NOT EXISTS \S+ ON "event" \("createdAt"\)/),
+      );
+    });
+
+    it('should only create what may be missing', async () => {
+      await up();
+      statements()
+        .filter((sql) => /^CREATE (TABLE|INDEX) /.test(sql))
+        .forEach((sql) => expect(sql).toContain('IF NOT EXISTS'));
+    });
+
+    it('should fill in normalizedName before making it unique', async () => {
+      await up();
+      const addColumn = indexOf(
+        /ALTER TABLE "flavour" ADD COLUMN IF NOT EXISTS "normalizedName"/,
+      );
+      const fill = indexOf(/UPDATE "flavour" SET "normalizedName"/);
+      const unique = indexOf(/ADD CONSTRAINT "UQ_34e8457eb0b46b448369945814d"/);
+      expect(addColumn).toBeGreaterThanOrEqual(0);
+      expect(fill).toBeGreaterThan(addColumn);
+      expect(unique).toBeGreaterThan(fill);
+    });
+  });
+
+  describe('when the database is empty', () => {
+    it('should create the tables', async () => {
+      queryRunner.hasTable.mockResolvedValue(false);
+      await up();
+      expect(indexOf(/^CREATE TABLE "coffee"/)).toBeGreaterThanOrEqual(0);
+      expect(indexOf(/IF NOT EXISTS/)).toBe(-1);
+    });
+  });
+});
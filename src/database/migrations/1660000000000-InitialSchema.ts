@@ -0,0 +1,135 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1660000000000 implements MigrationInterface {
+  name = 'InitialSchema1660000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Databases built by synchronize before migrations existed are adopted instead
+    if (await queryRunner.hasTable('coffee')) {
+      return this.adoptSynchronizedSchema(queryRunner);
+    }
+
+    await queryRunner.query(
+      `CREATE TABLE "flavour" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "normalizedName" character varying NOT NULL, CONSTRAINT "UQ_34e8457eb0b46b448369945814d" UNIQUE ("normalizedName"), CONSTRAINT "PK_ad41d76f211fe58a8f4343db332" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "coffee" ("id" SERIAL NOT NULL, "title" character varying NOT NULL, "description" character varying, "brand" character varying NOT NULL, "recommendations" integer NOT NULL DEFAULT '0', CONSTRAINT "PK_4d27239ee0b99a491ad806aec46" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "event" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "name" character varying NOT NULL, "payload" json NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_30c2f3bbaf6d34a55f8ae6e4614" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b535fbe8ec6d832dde22065ebd" ON "event" ("name") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_77b45e61f3194ba2be468b0778" ON "event" ("createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_6e1de41532ad6af403d3ceb4f2" ON "event" ("name", "type") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "coffee_flavours_flavour" ("coffeeId" integer NOT NULL, "flavourId" integer NOT NULL, CONSTRAINT "PK_f8cef0c1012432580e39b2e3cb5" PRIMARY KEY ("coffeeId", "flavourId"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_6f8fd8d565a5aedb52afcb11e2" ON "coffee_flavours_flavour" ("coffeeId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_cdbf92f3bdedba94f0db3999f2" ON "coffee_flavours_flavour" ("flavourId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "coffee_flavours_flavour" ADD CONSTRAINT "FK_6f8fd8d565a5aedb52afcb11e27" FOREIGN KEY ("coffeeId") REFERENCES "coffee"("id") ON DELETE CASCADE ON UPDATE CASCADE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "coffee_flavours_flavour" ADD CONSTRAINT "FK_cdbf92f3bdedba94f0db3999f2e" FOREIGN KEY ("flavourId") REFERENCES "flavour"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "coffee_flavours_flavour" DROP CONSTRAINT "FK_cdbf92f3bdedba94f0db3999f2e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "coffee_flavours_flavour" DROP CONSTRAINT "FK_6f8fd8d565a5aedb52afcb11e27"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_cdbf92f3bdedba94f0db3999f2"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_6f8fd8d565a5aedb52afcb11e2"`,
+    );
+    await queryRunner.query(`DROP TABLE "coffee_flavours_flavour"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_6e1de41532ad6af403d3ceb4f2"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_77b45e61f3194ba2be468b0778"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b535fbe8ec6d832dde22065ebd"`,
+    );
+    await queryRunner.query(`DROP TABLE "event"`);
+    await queryRunner.query(`DROP TABLE "coffee"`);
+    await queryRunner.query(`DROP TABLE "flavour"`);
+  }
+
+  /**
+   * Brings a schema that synchronize built up to this migration. Tables and
+   * indexes have the same names either way, but events may predate createdAt,
+   * and flavours may predate normalizedName or hold names that only differ in case and spacing: those
+   * are merged into the oldest flavour before the unique constraint is added.
+   */
+  private async adoptSynchronizedSchema(queryRunner: QueryRunner) {
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "event" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "name" character varying NOT NULL, "payload" json NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_30c2f3bbaf6d34a55f8ae6e4614" PRIMARY KEY ("id"))`,
+    );
+    // Synchronize built it without createdAt, which came later
+    await queryRunner.query(
+      `ALTER TABLE "event" ADD COLUMN IF NOT EXISTS "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_b535fbe8ec6d832dde22065ebd" ON "event" ("name") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_77b45e61f3194ba2be468b0778" ON "event" ("createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_6e1de41532ad6af403d3ceb4f2" ON "event" ("name", "type") `,
+    );
+
+    // Same normalization as normalizeFlavourName
+    await queryRunner.query(
+      `ALTER TABLE "flavour" ADD COLUMN IF NOT EXISTS "normalizedName" character varying`,
+    );
+    await queryRunner.query(
+      `UPDATE "flavour" SET "normalizedName" = lower(regexp_replace(regexp_replace("name", '^\\s+|\\s+$', '', 'g'), '\\s+', ' ', 'g'))`,
+    );
+    await queryRunner.query(
+      `CREATE TEMPORARY TABLE "flavour_duplicate" AS
+       SELECT "id", min("id") OVER (PARTITION BY "normalizedName") AS "keptId" FROM "flavour"`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "coffee_flavours_flavour" ("coffeeId", "flavourId")
+       SELECT "coffeeId", "keptId" FROM "coffee_flavours_flavour"
+       INNER JOIN "flavour_duplicate" ON "flavour_duplicate"."id" = "flavourId"
+       WHERE "keptId" <> "flavour_duplicate"."id"
+       ON CONFLICT DO NOTHING`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "coffee_flavours_flavour" WHERE "flavourId" IN (SELECT "id" FROM "flavour_duplicate" WHERE "keptId" <> "id")`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "flavour" WHERE "id" IN (SELECT "id" FROM "flavour_duplicate" WHERE "keptId" <> "id")`,
+    );
+    await queryRunner.query(`DROP TABLE "flavour_duplicate"`);
+    await queryRunner.query(
+      `ALTER TABLE "flavour" ALTER COLUMN "normalizedName" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `DO $$ BEGIN
+         IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'UQ_34e8457eb0b46b448369945814d') THEN
+           ALTER TABLE "flavour" ADD CONSTRAINT "UQ_34e8457eb0b46b448369945814d" UNIQUE ("normalizedName");
+         END IF;
+       END $$`,
+    );
+  }
+}
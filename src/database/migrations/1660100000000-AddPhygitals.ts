@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPhygitals1660100000000 implements MigrationInterface {
+  name = 'AddPhygitals1660100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "phygital" ("id" SERIAL NOT NULL, "chainId" integer NOT NULL, "contractAddress" character varying(42) NOT NULL, "tokenId" numeric(78,0) NOT NULL, "name" character varying NOT NULL, "description" character varying, CONSTRAINT "PK_5e4067c5914e75563c830058345" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_4a82646dcfc491dc3565f70265" ON "phygital" ("chainId", "contractAddress", "tokenId") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_4a82646dcfc491dc3565f70265"`,
+    );
+    await queryRunner.query(`DROP TABLE "phygital"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApiKeys1660200000000 implements MigrationInterface {
+  name = 'AddApiKeys1660200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "api_key" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "owner" character varying NOT NULL, "prefix" character varying NOT NULL, "hash" character varying NOT NULL, "scopes" text array NOT NULL DEFAULT '{}', "expiresAt" TIMESTAMP WITH TIME ZONE, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "revokedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_b1bd840641b8acbaad89c3d8d11" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_c4f6ccad30c0862eb54af9fb0a" ON "api_key" ("prefix") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c4f6ccad30c0862eb54af9fb0a"`,
+    );
+    await queryRunner.query(`DROP TABLE "api_key"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { DataSource } from 'typeorm';
+import { withQueryCancellation } from './query-cancellation';
+
+describe('withQueryCancellation', () => {
+  let dataSource: { createQueryRunner: jest.Mock; query: jest.Mock };
+  let queryRunner: { connect: jest.Mock; release: jest.Mock };
+
+  beforeEach(() => {
+    queryRunner = {
+      connect: jest.fn().mockResolvedValue({ processID: 42 }),
+      release: jest.fn(),
+    };
+    dataSource = {
+      createQueryRunner: jest.fn().mockReturnValue(queryRunner),
+      query: jest.fn().mockResolvedValue([]),
+    };
+  });
+
+  describe('without a signal', () => {
+    it('should run the work on the pool', async () => {
+      const work = jest.fn().mockResolvedValue('done');
+      expect(
+        await withQueryCancellation(
+          dataSource as unknown as DataSource,
+          undefined,
+          work,
+        ),
+      ).toBe('done');
+      expect(work).toBeCalledWith();
+      expect(dataSource.createQueryRunner).not.toBeCalled();
+    });
+  });
+
+  describe('with a signal', () => {
+    it('should cancel the backend running the work when it aborts', async () => {
+      const abortController = new AbortController();
+      const result = withQueryCancellation(
+        dataSource as unknown as DataSource,
+        abortController.signal,
+        (runner) => {
+          expect(runner).toBe(queryRunner);
+          abortController.abort();
+          return Promise.resolve('cancelled');
+        },
+      );
+
+      expect(await result).toBe('cancelled');
+      expect(dataSource.query).toBeCalledWith('SELECT pg_cancel_backend($1)', [
+        42,
+      ]);
+      expect(queryRunner.release).toBeCalled();
+    });
+  });
+});
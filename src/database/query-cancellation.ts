@@ -0,0 +1,35 @@
+import { DataSource, QueryRunner } from 'typeorm';
+import { onAbort } from '../common/utils/abort.util';
+
+/**
+ * Runs `work` on a dedicated connection and cancels its in-flight query with
+ * pg_cancel_backend when the signal aborts. Without a signal, `work` gets no
+ * query runner and uses the pool as usual.
+ */
+export const withQueryCancellation = async <T>(
+  dataSource: DataSource,
+  signal: AbortSignal | undefined,
+  work: (queryRunner?: QueryRunner) => Promise<T>,
+): Promise<T> => {
+  if (!signal) {
+    return work();
+  }
+
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    const { processID } = await queryRunner.connect();
+    const stopListening = onAbort(signal, () => {
+      // Cancelling is best effort, the query fails with 57014 if it worked
+      dataSource
+        .query('SELECT pg_cancel_backend($1)', [processID])
+        .catch(() => undefined);
+    });
+    try {
+      return await work(queryRunner);
+    } finally {
+      stopListening();
+    }
+  } finally {
+    await queryRunner.release();
+  }
+};
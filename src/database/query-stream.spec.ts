@@ -0,0 +1,46 @@
+import { Readable } from 'stream';
+import { DataSource, SelectQueryBuilder } from 'typeorm';
+import { streamQuery } from './query-stream';
+
+describe('streamQuery', () => {
+  let dataSource: { createQueryRunner: jest.Mock };
+  let queryRunner: { release: jest.Mock };
+  let queryBuilder: { setQueryRunner: jest.Mock; stream: jest.Mock };
+  let rows: Readable;
+
+  beforeEach(() => {
+    rows = new Readable({ objectMode: true, read: () => undefined });
+    queryRunner = { release: jest.fn().mockResolvedValue(undefined) };
+    dataSource = {
+      createQueryRunner: jest.fn().mockReturnValue(queryRunner),
+    };
+    queryBuilder = {
+      setQueryRunner: jest.fn().mockReturnThis(),
+      stream: jest.fn().mockResolvedValue(rows),
+    };
+  });
+
+  const run = () =>
+    streamQuery(
+      dataSource as unknown as DataSource,
+      queryBuilder as unknown as SelectQueryBuilder<any>,
+    );
+
+  it('should stream on a query runner of its own', async () => {
+    expect(await run()).toBe(rows);
+    expect(queryBuilder.setQueryRunner).toBeCalledWith(queryRunner);
+    expect(queryRunner.release).not.toBeCalled();
+  });
+
+  it('should release the connection once the stream is destroyed', async () => {
+    (await run()).destroy();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(queryRunner.release).toBeCalled();
+  });
+
+  it('should release the connection when the query cannot start', async () => {
+    queryBuilder.stream.mockRejectedValue(new Error('connection refused'));
+    await expect(run()).rejects.toThrow('connection refused');
+    expect(queryRunner.release).toBeCalled();
+  });
+});
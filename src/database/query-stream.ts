@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+import { DataSource, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+/**
+ * Streams the raw rows of a select through a pg-query-stream cursor, on a
+ * connection of its own. TypeORM only releases that connection when the
+ * stream ends or fails, so it is released here once the stream closes, which
+ * also covers a stream destroyed early because the client went away.
+ */
+export const streamQuery = async <T extends ObjectLiteral>(
+  dataSource: DataSource,
+  queryBuilder: SelectQueryBuilder<T>,
+): Promise<Readable> => {
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    const stream: Readable = await queryBuilder
+      .setQueryRunner(queryRunner)
+      .stream();
+    stream.once('close', () => queryRunner.release());
+    return stream;
+  } catch (err) {
+    await queryRunner.release();
+    throw err;
+  }
+};
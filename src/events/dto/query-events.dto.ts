@@ -0,0 +1,34 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+
+export class QueryEventsDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'The kind of resource, e.g. coffee.' })
+  @IsOptional()
+  @IsString()
+  readonly type?: string;
+
+  @ApiPropertyOptional({ description: 'The event name, e.g. coffee_created.' })
+  @IsOptional()
+  @IsString()
+  readonly name?: string;
+
+  @ApiPropertyOptional({ description: 'Only events created at or after.' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly from?: Date;
+
+  @ApiPropertyOptional({ description: 'Only events created at or before.' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly to?: Date;
+
+  @ApiPropertyOptional({ description: 'Only events about this coffee.' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  readonly coffeeId?: number;
+}
@@ -0,0 +1,19 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { QueryEventsDto } from './query-events.dto';
+
+export class StreamEventsDto extends PickType(QueryEventsDto, [
+  'type',
+  'name',
+] as const) {
+  @ApiPropertyOptional({
+    description:
+      'Resume after this event id. The Last-Event-ID header takes precedence.',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  readonly lastEventId?: number;
+}
@@ -0,0 +1,61 @@
+import { StreamableFile } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+
+describe('EventsController', () => {
+  let controller: EventsController;
+  let eventsService: Record<'findAll' | 'streamAll', jest.Mock>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [EventsController],
+      providers: [
+        {
+          provide: EventsService,
+          useValue: {
+            findAll: jest.fn(),
+            streamAll: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<EventsController>(EventsController);
+    eventsService = module.get(EventsService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    it('should stream events as CSV when asked', async () => {
+      eventsService.streamAll.mockResolvedValue(
+        Readable.from([
+          {
+            id: 1,
+            type: 'coffee',
+            name: 'coffee_created',
+            payload: { coffeeId: 1 },
+            createdAt: new Date('2026-10-19T00:00:00.000Z'),
+          },
+        ]),
+      );
+      const file = (await controller.findAll(
+        {},
+        undefined,
+        'text/csv',
+      )) as StreamableFile;
+      let body = '';
+      for await (const chunk of file.getStream()) {
+        body += chunk;
+      }
+      expect(body).toBe(
+        'id,type,name,payload,createdAt\r\n1,coffee,coffee_created,"{""coffeeId"":1}",2026-10-19T00:00:00.000Z\r\n',
+      );
+      expect(eventsService.findAll).not.toBeCalled();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  MessageEvent,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import { ApiHeader, ApiProduces, ApiTags } from '@nestjs/swagger';
+import { map, Observable } from 'rxjs';
+import { RequestSignal } from '../common/decorators/request-signal.decorator';
+import {
+  LIST_FORMATS,
+  ListFormat,
+  ListStreamOptions,
+  negotiateListFormat,
+  streamList,
+} from '../common/utils/list-format.util';
+import { QueryEventsDto } from './dto/query-events.dto';
+import { StreamEventsDto } from './dto/stream-events.dto';
+import { Event } from './entities/event.entity';
+import { EventsService } from './events.service';
+
+const EVENTS_LIST_STREAM: ListStreamOptions<Event> = {
+  filename: 'events',
+  columns: {
+    id: (event) => event.id,
+    type: (event) => event.type,
+    name: (event) => event.name,
+    payload: (event) => event.payload,
+    createdAt: (event) => event.createdAt,
+  },
+};
+
+@ApiTags('events')
+@Controller('events')
+export class EventsController {
+  constructor(private readonly eventsService: EventsService) {}
+
+  @ApiProduces(...LIST_FORMATS)
+  @Get()
+  async findAll(
+    @Query() query: QueryEventsDto,
+    @RequestSignal() signal: AbortSignal,
+    @Headers('accept') accept?: string,
+  ) {
+    const format = negotiateListFormat(accept);
+    if (format === ListFormat.Json) {
+      return this.eventsService.findAll(query, signal);
+    }
+    return streamList(
+      await this.eventsService.streamAll(query),
+      format,
+      EVENTS_LIST_STREAM,
+    );
+  }
+
+  @Sse('stream')
+  @ApiHeader({ name: 'Last-Event-ID', required: false })
+  stream(
+    @Query() { lastEventId, ...filters }: StreamEventsDto,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+  ): Observable<MessageEvent> {
+    const resumeFrom =
+      lastEventIdHeader !== undefined ? +lastEventIdHeader : lastEventId;
+
+    return this.eventsService.stream(filters, resumeFrom).pipe(
+      map((event) => ({
+        id: String(event.id),
+        data: event,
+      })),
+    );
+  }
+}
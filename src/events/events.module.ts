@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Event } from './entities/event.entity';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+import { EventsSubscriber } from './events.subscriber';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Event])],
+  controllers: [EventsController],
+  providers: [EventsService, EventsSubscriber],
+  exports: [EventsService],
+})
+export class EventsModule {}
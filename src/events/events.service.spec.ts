@@ -0,0 +1,230 @@
+import { HttpException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Readable } from 'stream';
+import { DataSource, MoreThan } from 'typeorm';
+import {
+  createMockQueryBuilder,
+  createMockRepositoryProvider,
+  MockQueryBuilder,
+  MockRepository,
+} from '../common/test/mock-repository';
+import { Event } from './entities/event.entity';
+import { EventsService } from './events.service';
+
+describe('EventsService', () => {
+  let service: EventsService;
+  let eventRepository: MockRepository;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventsService,
+        createMockRepositoryProvider(Event),
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn(() => ({ release: jest.fn() })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EventsService>(EventsService);
+    eventRepository = module.get<MockRepository>(getRepositoryToken(Event));
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    let queryBuilder: MockQueryBuilder;
+
+    beforeEach(() => {
+      queryBuilder = createMockQueryBuilder();
+      queryBuilder.getManyAndCount.mockResolvedValue([[{}], 1]);
+      eventRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    });
+
+    describe('when called without filters', () => {
+      it('should return the newest events first with the total', async () => {
+        expect(await service.findAll({})).toEqual({
+          items: [{}],
+          total: 1,
+          limit: null,
+          offset: 0,
+        });
+        expect(queryBuilder.andWhere).not.toBeCalled();
+        expect(queryBuilder.orderBy).toBeCalledWith('event.id', 'DESC');
+      });
+    });
+    describe('when called with filters', () => {
+      it('should filter by type, name and time range', async () => {
+        const from = new Date('2022-01-01');
+        const to = new Date('2022-02-01');
+        await service.findAll({
+          type: 'coffee',
+          name: 'coffee_created',
+          from,
+          to,
+        });
+        expect(queryBuilder.andWhere).toBeCalledWith('event.type = :type', {
+          type: 'coffee',
+        });
+        expect(queryBuilder.andWhere).toBeCalledWith('event.name = :name', {
+          name: 'coffee_created',
+        });
+        expect(queryBuilder.andWhere).toBeCalledWith(
+          'event.createdAt >= :from',
+          { from },
+        );
+        expect(queryBuilder.andWhere).toBeCalledWith('event.createdAt <= :to', {
+          to,
+        });
+      });
+      it('should filter on payload keys as text', async () => {
+        await service.findAll({ coffeeId: 3 });
+        expect(queryBuilder.andWhere).toBeCalledWith(
+          "event.payload ->> 'coffeeId' = :coffeeId",
+          { coffeeId: '3' },
+        );
+      });
+    });
+  });
+
+  describe('streamAll', () => {
+    it('should stream the filtered events, newest first', async () => {
+      const queryBuilder = createMockQueryBuilder();
+      const rows = Readable.from([]);
+      queryBuilder.stream.mockResolvedValue(rows);
+      eventRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      expect(await service.streamAll({ type: 'coffee', limit: 5 })).toBe(rows);
+      expect(queryBuilder.andWhere).toBeCalledWith('event.type = :type', {
+        type: 'coffee',
+      });
+      expect(queryBuilder.orderBy).toBeCalledWith('event.id', 'DESC');
+      expect(queryBuilder.offset).toBeCalledWith(undefined);
+      expect(queryBuilder.limit).toBeCalledWith(5);
+    });
+  });
+
+  describe('record', () => {
+    const manager = {
+      create: jest.fn((entity, data) => data),
+      save: jest.fn((data) => data),
+    };
+
+    describe('when called with a manager', () => {
+      it('should save the event through that manager', async () => {
+        const payload = { coffeeId: 1 };
+        expect(
+          await service.record(
+            'coffee',
+            'coffee_created',
+            payload,
+            manager as any,
+          ),
+        ).toEqual({ type: 'coffee', name: 'coffee_created', payload });
+        expect(manager.create).toBeCalledWith(Event, {
+          type: 'coffee',
+          name: 'coffee_created',
+          payload,
+        });
+      });
+    });
+  });
+
+  describe('stream', () => {
+    const event = (id: number, name = 'coffee_created') =>
+      ({ id, type: 'coffee', name, payload: {} } as Event);
+
+    describe('when called without a lastEventId', () => {
+      it('should emit published events matching the filter', () => {
+        const received: Event[] = [];
+        const subscription = service
+          .stream({ name: 'coffee_created' })
+          .subscribe((e) => received.push(e));
+
+        service.publish(event(1));
+        service.publish(event(2, 'coffee_deleted'));
+        subscription.unsubscribe();
+        service.publish(event(3));
+
+        expect(received).toEqual([event(1)]);
+        expect(eventRepository.find).not.toBeCalled();
+      });
+    });
+    describe('when called with a lastEventId', () => {
+      it('should replay missed events before live ones without duplicates', async () => {
+        let resolveMissed: (events: Event[]) => void;
+        eventRepository.find.mockReturnValue(
+          new Promise((resolve) => (resolveMissed = resolve)),
+        );
+        const received: Event[] = [];
+        const subscription = service
+          .stream({ type: 'coffee' }, 1)
+          .subscribe((e) => received.push(e));
+
+        // Published while the backlog query is still in flight
+        service.publish(event(3));
+        service.publish(event(4));
+        resolveMissed([event(2), event(3)]);
+        await new Promise(process.nextTick);
+        service.publish(event(5));
+        subscription.unsubscribe();
+
+        expect(received.map(({ id }) => id)).toEqual([2, 3, 4, 5]);
+        expect(eventRepository.find).toBeCalledWith({
+          where: { type: 'coffee', id: expect.anything() },
+          order: { id: 'ASC' },
+          take: 100,
+        });
+      });
+      it('should read the missed events a page at a time', async () => {
+        const firstPage = Array.from({ length: 100 }, (_, i) => event(i + 2));
+        eventRepository.find
+          .mockResolvedValueOnce(firstPage)
+          .mockResolvedValueOnce([event(102)]);
+        const received: Event[] = [];
+        const subscription = service
+          .stream({}, 1)
+          .subscribe((e) => received.push(e));
+
+        await new Promise(process.nextTick);
+        subscription.unsubscribe();
+
+        expect(received.map(({ id }) => id)).toEqual(
+          [...firstPage, event(102)].map(({ id }) => id),
+        );
+        expect(eventRepository.find).toBeCalledTimes(2);
+        expect(eventRepository.find).toHaveBeenLastCalledWith({
+          where: { id: MoreThan(101) },
+          order: { id: 'ASC' },
+          take: 100,
+        });
+      });
+      it('should throw on an invalid id', () => {
+        try {
+          service.stream({}, NaN);
+          expect(false);
+        } catch (e) {
+          expect(e).toBeInstanceOf(HttpException);
+          expect(e.message).toEqual('NaN is not a valid event id');
+        }
+      });
+    });
+    describe('when the application shuts down', () => {
+      it('should complete open streams and the ones opened afterwards', () => {
+        const completed = jest.fn();
+        service.stream({}).subscribe({ complete: completed });
+
+        service.beforeApplicationShutdown();
+        service.stream({}).subscribe({ complete: completed });
+
+        expect(completed).toBeCalledTimes(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  BeforeApplicationShutdown,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  concat,
+  defer,
+  EMPTY,
+  expand,
+  filter,
+  finalize,
+  from,
+  mergeMap,
+  Observable,
+  ReplaySubject,
+  Subject,
+  tap,
+} from 'rxjs';
+import { Readable } from 'stream';
+import { DataSource, EntityManager, MoreThan, Repository } from 'typeorm';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { withQueryCancellation } from '../database/query-cancellation';
+import { streamQuery } from '../database/query-stream';
+import { QueryEventsDto } from './dto/query-events.dto';
+import { StreamEventsDto } from './dto/stream-events.dto';
+import { Event } from './entities/event.entity';
+
+// Query params that filter on a key inside Event.payload
+const PAYLOAD_FILTER_KEYS = ['coffeeId'] as const;
+
+// Selected as is when streaming
+const STREAMED_COLUMNS = ['type', 'name', 'payload', 'createdAt'] as const;
+
+// Events read per query when replaying after a lastEventId
+const REPLAY_PAGE_SIZE = 100;
+
+@Injectable()
+export class EventsService implements BeforeApplicationShutdown {
+  private readonly events$ = new Subject<Event>();
+
+  constructor(
+    @InjectRepository(Event)
+    private readonly eventRepository: Repository<Event>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findAll(
+    query: QueryEventsDto,
+    signal?: AbortSignal,
+  ): Promise<PaginatedResponseDto<Event>> {
+    const { limit, offset = 0 } = query;
+    const queryBuilder = this.createListQuery(query);
+
+    const [items, total] = await withQueryCancellation(
+      this.dataSource,
+      signal,
+      (queryRunner) =>
+        queryBuilder
+          .setQueryRunner(queryRunner)
+          .skip(offset)
+          .take(limit)
+          .getManyAndCount(),
+    );
+
+    return {
+      items,
+      total,
+      limit: limit ?? null,
+      offset,
+    };
+  }
+
+  /**
+   * The listing of findAll read row by row, for exports too large to hold in memory
+   */
+  streamAll(query: QueryEventsDto): Promise<Readable> {
+    const { limit, offset } = query;
+    const queryBuilder = this.createListQuery(query).select('event.id', 'id');
+    STREAMED_COLUMNS.forEach((column) =>
+      queryBuilder.addSelect(`event.${column}`, column),
+    );
+    return streamQuery(
+      this.dataSource,
+      queryBuilder.offset(offset).limit(limit),
+    );
+  }
+
+  /**
+   * Pass the manager of an open transaction to write the event alongside the change it describes
+   */
+  record(
+    type: string,
+    name: string,
+    payload: Record<string, any>,
+    manager: EntityManager = this.eventRepository.manager,
+  ) {
+    return manager.save(manager.create(Event, { type, name, payload }));
+  }
+
+  /**
+   * Called by EventsSubscriber once an inserted event has been committed
+   */
+  publish(event: Event) {
+    this.events$.next(event);
+  }
+
+  /**
+   * Ends every open stream, so SSE connections do not keep the server from closing.
+   * Streams opened afterwards end straight away and clients reconnect elsewhere.
+   */
+  beforeApplicationShutdown() {
+    this.events$.complete();
+  }
+
+  /**
+   * Live events matching the filter. With a lastEventId, anything written after it is replayed first, a page at a time
+   */
+  stream(
+    { type, name }: Omit<StreamEventsDto, 'lastEventId'>,
+    lastEventId?: number,
+  ): Observable<Event> {
+    if (lastEventId !== undefined && !Number.isInteger(lastEventId)) {
+      throw new HttpException(
+        `${lastEventId} is not a valid event id`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const where = {
+      ...(type !== undefined && { type }),
+      ...(name !== undefined && { name }),
+    };
+    const live$ = this.events$.pipe(
+      filter(
+        (event) =>
+          (type === undefined || event.type === type) &&
+          (name === undefined || event.name === name),
+      ),
+    );
+
+    if (lastEventId === undefined) {
+      return live$;
+    }
+
+    return defer(() => {
+      // Buffer live events while the backlog loads so nothing slips between the two
+      const buffered$ = new ReplaySubject<Event>();
+      const subscription = live$.subscribe(buffered$);
+
+      const page = (after: number) =>
+        from(
+          this.eventRepository.find({
+            where: { ...where, id: MoreThan(after) },
+            order: { id: 'ASC' },
+            take: REPLAY_PAGE_SIZE,
+          }),
+        );
+      let replayedUpTo = lastEventId;
+      const missed$ = page(lastEventId).pipe(
+        expand((missed) =>
+          missed.length < REPLAY_PAGE_SIZE
+            ? EMPTY
+            : page(missed[missed.length - 1].id),
+        ),
+        mergeMap((missed) => from(missed)),
+        tap((event) => (replayedUpTo = event.id)),
+      );
+
+      return concat(
+        missed$,
+        buffered$.pipe(filter((event) => event.id > replayedUpTo)),
+      ).pipe(finalize(() => subscription.unsubscribe()));
+    });
+  }
+
+  private createListQuery(query: QueryEventsDto) {
+    const { type, name, from, to } = query;
+    const queryBuilder = this.eventRepository.createQueryBuilder('event');
+
+    if (type !== undefined) {
+      queryBuilder.andWhere('event.type = :type', { type });
+    }
+    if (name !== undefined) {
+      queryBuilder.andWhere('event.name = :name', { name });
+    }
+    if (from !== undefined) {
+      queryBuilder.andWhere('event.createdAt >= :from', { from });
+    }
+    if (to !== undefined) {
+      queryBuilder.andWhere('event.createdAt <= :to', { to });
+    }
+    PAYLOAD_FILTER_KEYS.forEach((key) => {
+      if (query[key] !== undefined) {
+        queryBuilder.andWhere(`event.payload ->> '${key}' = :${key}`, {
+          [key]: String(query[key]),
+        });
+      }
+    });
+
+    return queryBuilder.orderBy('event.id', 'DESC');
+  }
+}
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource, InsertEvent, QueryRunner } from 'typeorm';
+import { Event } from './entities/event.entity';
+import { EventsService } from './events.service';
+import { EventsSubscriber } from './events.subscriber';
+
+describe('EventsSubscriber', () => {
+  let subscriber: EventsSubscriber;
+  let dataSource: { subscribers: unknown[] };
+  let eventsService: { publish: jest.Mock };
+
+  const event = { id: 1 } as Event;
+  const insert = (queryRunner: Partial<QueryRunner>) =>
+    ({ entity: event, queryRunner } as InsertEvent<Event>);
+
+  beforeEach(async () => {
+    dataSource = { subscribers: [] };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventsSubscriber,
+        { provide: DataSource, useValue: dataSource },
+        { provide: EventsService, useValue: { publish: jest.fn() } },
+      ],
+    }).compile();
+
+    subscriber = module.get<EventsSubscriber>(EventsSubscriber);
+    eventsService = module.get(EventsService);
+  });
+
+  it('should register itself with the data source', () => {
+    expect(dataSource.subscribers).toContain(subscriber);
+  });
+
+  describe('afterInsert', () => {
+    describe('when outside a transaction', () => {
+      it('should publish immediately', () => {
+        subscriber.afterInsert(insert({ isTransactionActive: false }));
+        expect(eventsService.publish).toBeCalledWith(event);
+      });
+    });
+    describe('when inside a transaction', () => {
+      it('should publish once the transaction commits', () => {
+        const queryRunner = { isTransactionActive: true } as QueryRunner;
+        subscriber.afterInsert(insert(queryRunner));
+        expect(eventsService.publish).not.toBeCalled();
+
+        subscriber.afterTransactionCommit({ queryRunner } as any);
+        expect(eventsService.publish).toBeCalledWith(event);
+      });
+      it('should never publish if the transaction rolls back', () => {
+        const queryRunner = { isTransactionActive: true } as QueryRunner;
+        subscriber.afterInsert(insert(queryRunner));
+        subscriber.afterTransactionRollback({ queryRunner } as any);
+        subscriber.afterTransactionCommit({ queryRunner } as any);
+        expect(eventsService.publish).not.toBeCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DataSource,
+  EntitySubscriberInterface,
+  InsertEvent,
+  QueryRunner,
+  TransactionCommitEvent,
+  TransactionRollbackEvent,
+} from 'typeorm';
+import { Event } from './entities/event.entity';
+import { EventsService } from './events.service';
+
+/**
+ * Hands every inserted Event to EventsService once it is visible to other connections,
+ * holding back rows written inside a transaction until that transaction commits
+ */
+@Injectable()
+export class EventsSubscriber implements EntitySubscriberInterface<Event> {
+  private readonly pending = new WeakMap<QueryRunner, Event[]>();
+
+  constructor(
+    dataSource: DataSource,
+    private readonly eventsService: EventsService,
+  ) {
+    dataSource.subscribers.push(this);
+  }
+
+  listenTo() {
+    return Event;
+  }
+
+  afterInsert({ entity, queryRunner }: InsertEvent<Event>) {
+    if (!queryRunner.isTransactionActive) {
+      this.eventsService.publish(entity);
+      return;
+    }
+    const pending = this.pending.get(queryRunner) ?? [];
+    this.pending.set(queryRunner, [...pending, entity]);
+  }
+
+  afterTransactionCommit({ queryRunner }: TransactionCommitEvent) {
+    const pending = this.pending.get(queryRunner) ?? [];
+    this.pending.delete(queryRunner);
+    pending.forEach((event) => this.eventsService.publish(event));
+  }
+
+  afterTransactionRollback({ queryRunner }: TransactionRollbackEvent) {
+    this.pending.delete(queryRunner);
+  }
+}
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+// Each readiness check gives up on its own, so one slow dependency cannot hide the others
+export default registerAs('health', () => ({
+  databaseTimeoutMs: parseInt(process.env.HEALTH_DATABASE_TIMEOUT_MS, 10),
+  migrationsTimeoutMs: parseInt(process.env.HEALTH_MIGRATIONS_TIMEOUT_MS, 10),
+  chainTimeoutMs: parseInt(process.env.HEALTH_CHAIN_TIMEOUT_MS, 10),
+  shutdownDelayMs: parseInt(process.env.HEALTH_SHUTDOWN_DELAY_MS, 10),
+}));
@@ -0,0 +1,44 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { HealthStatus } from './interfaces/health-report.interface';
+
+const mockHealthService = {
+  live: jest.fn(),
+  ready: jest.fn(),
+};
+
+describe('HealthController', () => {
+  let controller: HealthController;
+  let response: { status: jest.Mock };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HealthController],
+      providers: [{ provide: HealthService, useValue: mockHealthService }],
+    }).compile();
+
+    controller = module.get<HealthController>(HealthController);
+    response = { status: jest.fn() };
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('ready', () => {
+    it('should answer 200 when every check is up', async () => {
+      const report = { status: HealthStatus.Up, checks: {} };
+      mockHealthService.ready.mockResolvedValue(report);
+      expect(await controller.ready(response)).toEqual(report);
+      expect(response.status).not.toBeCalled();
+    });
+    it('should answer 503 when a check is down', async () => {
+      const report = { status: HealthStatus.Down, checks: {} };
+      mockHealthService.ready.mockResolvedValue(report);
+      expect(await controller.ready(response)).toEqual(report);
+      expect(response.status).toBeCalledWith(HttpStatus.SERVICE_UNAVAILABLE);
+    });
+  });
+});
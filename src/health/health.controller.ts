@@ -0,0 +1,32 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiServiceUnavailableResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../common/decorators/public.decorator';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
+import { HealthService } from './health.service';
+import { HealthStatus } from './interfaces/health-report.interface';
+
+// Probed by the orchestrator, which reads the status code and needs no API key
+@ApiTags('health')
+@Public()
+@RawResponse()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  live() {
+    return this.healthService.live();
+  }
+
+  @ApiServiceUnavailableResponse({ description: 'A dependency is down' })
+  @Get('ready')
+  async ready(
+    @Res({ passthrough: true }) response: { status(code: number): unknown },
+  ) {
+    const report = await this.healthService.ready();
+    if (report.status === HealthStatus.Down) {
+      response.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return report;
+  }
+}
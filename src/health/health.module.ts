@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ChainsModule } from '../chains/chains.module';
+import healthConfig from './health.config';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [ConfigModule.forFeature(healthConfig), ChainsModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
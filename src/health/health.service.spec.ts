@@ -0,0 +1,136 @@
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { ChainsService } from '../chains/chains.service';
+import { HealthService } from './health.service';
+import { HealthStatus } from './interfaces/health-report.interface';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  let dataSource: Record<string, any>;
+  let chainsService: { findAll: jest.Mock; getBlockNumber: jest.Mock };
+  let pendingMigrations: jest.SpyInstance;
+
+  beforeEach(() => {
+    dataSource = {
+      options: {},
+      driver: { options: {}, buildTableName: jest.fn() },
+      createQueryRunner: jest.fn().mockReturnValue({
+        connect: jest.fn().mockResolvedValue({ processID: 42 }),
+        release: jest.fn(),
+      }),
+      query: jest.fn().mockResolvedValue([]),
+    };
+    chainsService = {
+      findAll: jest.fn().mockReturnValue([{ chainId: 1, name: 'Ethereum' }]),
+      getBlockNumber: jest.fn().mockResolvedValue(15000000),
+    };
+    pendingMigrations = jest
+      .spyOn(MigrationExecutor.prototype, 'getPendingMigrations')
+      .mockResolvedValue([]);
+    service = new HealthService(
+      {
+        databaseTimeoutMs: 50,
+        migrationsTimeoutMs: 50,
+        chainTimeoutMs: 50,
+        shutdownDelayMs: 20,
+      },
+      dataSource as unknown as DataSource,
+      chainsService as unknown as ChainsService,
+    );
+  });
+
+  afterEach(() => {
+    pendingMigrations.mockRestore();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('live', () => {
+    it('should report up without checking dependencies', () => {
+      expect(service.live()).toEqual({
+        status: HealthStatus.Up,
+        uptimeSeconds: expect.any(Number),
+      });
+      expect(dataSource.query).not.toBeCalled();
+    });
+  });
+
+  describe('ready', () => {
+    it('should report every check with its details', async () => {
+      expect(await service.ready()).toEqual({
+        status: HealthStatus.Up,
+        checks: {
+          database: { status: HealthStatus.Up, durationMs: expect.any(Number) },
+          migrations: {
+            status: HealthStatus.Up,
+            durationMs: expect.any(Number),
+          },
+          'chain:1': {
+            status: HealthStatus.Up,
+            durationMs: expect.any(Number),
+            details: { name: 'Ethereum', blockNumber: 15000000 },
+          },
+        },
+      });
+      expect(dataSource.query).toBeCalledWith(
+        'SELECT 1',
+        [],
+        expect.anything(),
+      );
+    });
+
+    it('should be down while migrations are pending', async () => {
+      pendingMigrations.mockResolvedValue([
+        { name: 'AddApiKeys1660200000000' },
+      ]);
+      const report = await service.ready();
+      expect(report.status).toBe(HealthStatus.Down);
+      expect(report.checks.migrations).toEqual(
+        expect.objectContaining({
+          status: HealthStatus.Down,
+          error: 'Pending migrations: AddApiKeys1660200000000',
+        }),
+      );
+    });
+
+    it('should time out a slow check and abort it', async () => {
+      let signal: AbortSignal;
+      chainsService.getBlockNumber.mockImplementation(
+        (chainId: number, probeSignal: AbortSignal) => {
+          signal = probeSignal;
+          return new Promise(() => undefined);
+        },
+      );
+      const report = await service.ready();
+      expect(report.status).toBe(HealthStatus.Down);
+      expect(report.checks['chain:1']).toEqual(
+        expect.objectContaining({ error: 'Timed out after 50ms' }),
+      );
+      expect(report.checks.database.status).toBe(HealthStatus.Up);
+      expect(signal.aborted).toBe(true);
+    });
+
+    it('should be down once shutdown has started', async () => {
+      const shutdown = service.beforeApplicationShutdown();
+      const report = await service.ready();
+      expect(report.status).toBe(HealthStatus.Down);
+      expect(report.checks).toEqual({
+        shutdown: expect.objectContaining({ error: 'Shutting down' }),
+      });
+      expect(dataSource.query).not.toBeCalled();
+      await shutdown;
+    });
+
+    it('should give load balancers the delay before the server closes', async () => {
+      let delayed = false;
+      const shutdown = service
+        .beforeApplicationShutdown()
+        .then(() => (delayed = true));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(delayed).toBe(false);
+      await shutdown;
+      expect(delayed).toBe(true);
+    });
+  });
+});
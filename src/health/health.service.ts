@@ -0,0 +1,161 @@
+import { BeforeApplicationShutdown, Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { ChainsService } from '../chains/chains.service';
+import { withQueryCancellation } from '../database/query-cancellation';
+import healthConfig from './health.config';
+import {
+  HealthCheckResult,
+  HealthReport,
+  HealthStatus,
+} from './interfaces/health-report.interface';
+
+type Probe = (signal: AbortSignal) => Promise<Record<string, unknown> | void>;
+
+@Injectable()
+export class HealthService implements BeforeApplicationShutdown {
+  private shuttingDown = false;
+
+  constructor(
+    @Inject(healthConfig.KEY)
+    private readonly config: ConfigType<typeof healthConfig>,
+    private readonly dataSource: DataSource,
+    private readonly chainsService: ChainsService,
+  ) {}
+
+  /**
+   * The process is up and serving requests, dependencies are left to readiness
+   */
+  live() {
+    return {
+      status: HealthStatus.Up,
+      uptimeSeconds: Math.round(process.uptime()),
+    };
+  }
+
+  async ready(): Promise<HealthReport> {
+    if (this.shuttingDown) {
+      return {
+        status: HealthStatus.Down,
+        checks: {
+          shutdown: {
+            status: HealthStatus.Down,
+            durationMs: 0,
+            error: 'Shutting down',
+          },
+        },
+      };
+    }
+
+    const probes: [string, number, Probe][] = [
+      [
+        'database',
+        this.config.databaseTimeoutMs,
+        (signal) => this.pingDatabase(signal),
+      ],
+      [
+        'migrations',
+        this.config.migrationsTimeoutMs,
+        (signal) => this.checkMigrations(signal),
+      ],
+      ...this.chainsService
+        .findAll()
+        .map(({ chainId, name }): [string, number, Probe] => [
+          `chain:${chainId}`,
+          this.config.chainTimeoutMs,
+          async (signal) => ({
+            name,
+            blockNumber: await this.chainsService.getBlockNumber(
+              chainId,
+              signal,
+            ),
+          }),
+        ]),
+    ];
+    const results = await Promise.all(
+      probes.map(([, timeoutMs, probe]) => this.runCheck(timeoutMs, probe)),
+    );
+
+    const checks = results.reduce<Record<string, HealthCheckResult>>(
+      (checks, result, index) => ({ ...checks, [probes[index][0]]: result }),
+      {},
+    );
+    return {
+      status: results.every(({ status }) => status === HealthStatus.Up)
+        ? HealthStatus.Up
+        : HealthStatus.Down,
+      checks,
+    };
+  }
+
+  // Load balancers get the delay to stop routing here, then in-flight requests drain as the server closes
+  async beforeApplicationShutdown() {
+    this.shuttingDown = true;
+    await new Promise((resolve) =>
+      setTimeout(resolve, this.config.shutdownDelayMs),
+    );
+  }
+
+  private pingDatabase(signal: AbortSignal) {
+    return withQueryCancellation(
+      this.dataSource,
+      signal,
+      async (queryRunner) => {
+        await this.dataSource.query('SELECT 1', [], queryRunner);
+      },
+    );
+  }
+
+  private checkMigrations(signal: AbortSignal) {
+    return withQueryCancellation(
+      this.dataSource,
+      signal,
+      async (queryRunner) => {
+        const pending = await new MigrationExecutor(
+          this.dataSource,
+          queryRunner,
+        ).getPendingMigrations();
+        if (pending.length) {
+          throw new Error(
+            `Pending migrations: ${pending.map(({ name }) => name).join(', ')}`,
+          );
+        }
+      },
+    );
+  }
+
+  private async runCheck(
+    timeoutMs: number,
+    probe: Probe,
+  ): Promise<HealthCheckResult> {
+    const startedAt = Date.now();
+    const abortController = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timedOut = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(() => {
+        abortController.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      const details = await Promise.race([
+        probe(abortController.signal),
+        timedOut,
+      ]);
+      return {
+        status: HealthStatus.Up,
+        durationMs: Date.now() - startedAt,
+        ...(details && { details }),
+      };
+    } catch (err) {
+      return {
+        status: HealthStatus.Down,
+        durationMs: Date.now() - startedAt,
+        error: err.message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+export enum HealthStatus {
+  Up = 'up',
+  Down = 'down',
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  durationMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult>;
+}
@@ -1,11 +1,18 @@
-import { ValidationPipe } from '@nestjs/common';
-import { NestFactory } from '@nestjs/core';
+import { ShutdownSignal, ValidationPipe, VersioningType } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { HttpAdapterHost, NestFactory, Reflector } from '@nestjs/core';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
-import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import { API_KEY_SECURITY } from './common/decorators/require-scopes.decorator';
+import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 import { ApiKeyGuard } from './common/guards/api-key.guard';
+import { DeprecationInterceptor } from './common/interceptors/deprecation.interceptor';
 import { TimeoutInterceptor } from './common/interceptors/timeout.interceptor';
 import { WrapResponseInterceptor } from './common/interceptors/wrap-response.interceptor';
+import { CSV_CONTENT_TYPE } from './common/utils/csv.util';
+import { ApiVersioningType } from './common/versioning/api-versioning';
+import appConfig from './config/app.config';
+import { MetricsRegistry } from './metrics/metrics.registry';
 import {
   FastifyAdapter,
   NestFastifyApplication,
@@ -16,6 +23,26 @@ async function bootstrap() {
     AppModule,
     new FastifyAdapter(),
   );
+  // Fastify only parses JSON itself, CSV bodies reach handlers as text
+  app
+    .getHttpAdapter()
+    .getInstance()
+    .addContentTypeParser(
+      CSV_CONTENT_TYPE,
+      { parseAs: 'string' },
+      (request, body, done) => done(null, body),
+    );
+
+  const config = app.get<ConfigType<typeof appConfig>>(appConfig.KEY);
+  const reflector = app.get(Reflector);
+
+  const { versioning } = config;
+  app.enableVersioning(
+    versioning.type === ApiVersioningType.Header
+      ? { type: VersioningType.HEADER, header: versioning.header }
+      : { type: VersioningType.URI }, // Unversioned controllers keep their unprefixed paths
+  );
+
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true, // Unwanted properties are removed from a dto
@@ -26,19 +53,29 @@ async function bootstrap() {
       },
     }),
   );
-  app.useGlobalFilters(new HttpExceptionFilter());
-  app.useGlobalInterceptors(new WrapResponseInterceptor());
-  app.useGlobalInterceptors(new TimeoutInterceptor());
+  app.useGlobalFilters(new AllExceptionsFilter(app.get(HttpAdapterHost)));
+  app.useGlobalInterceptors(new WrapResponseInterceptor(reflector, config));
+  app.useGlobalInterceptors(new DeprecationInterceptor(reflector, config));
+  app.useGlobalInterceptors(
+    new TimeoutInterceptor(reflector, config, app.get(MetricsRegistry)),
+  );
 
   const options = new DocumentBuilder()
     .setTitle('My Playground')
     .setDescription('To learn NestJS')
     .setVersion('1.0')
+    .addApiKey(
+      { type: 'apiKey', name: 'Authorization', in: 'header' },
+      API_KEY_SECURITY,
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, options);
   SwaggerModule.setup('api', app, document);
 
+  // Stops accepting connections, lets in-flight requests finish, then closes the DB pool
+  app.enableShutdownHooks([ShutdownSignal.SIGTERM, ShutdownSignal.SIGINT]);
+
   await app.listen(3000);
 }
 bootstrap();
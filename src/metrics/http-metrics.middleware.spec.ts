@@ -0,0 +1,49 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage, ServerResponse } from 'http';
+import { attachRequestLog } from '../common/logging/request-log';
+import { HttpMetricsMiddleware } from './http-metrics.middleware';
+import { MetricsRegistry } from './metrics.registry';
+
+describe('HttpMetricsMiddleware', () => {
+  let middleware: HttpMetricsMiddleware;
+  let registry: MetricsRegistry;
+
+  const serve = (route?: string) => {
+    const req = { method: 'GET', url: '/coffees/1', headers: {} };
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+    attachRequestLog(req, { requestId: '1', startedAt: 0, route });
+    middleware.use(
+      req as unknown as IncomingMessage,
+      res as unknown as ServerResponse,
+      jest.fn(),
+    );
+    res.emit('finish');
+  };
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    middleware = new HttpMetricsMiddleware(registry);
+  });
+
+  it('should be defined', () => {
+    expect(middleware).toBeDefined();
+  });
+
+  it('should count and time requests by route pattern', () => {
+    serve('/coffees/:id');
+    const metrics = registry.render();
+    expect(metrics).toContain(
+      'http_requests_total{method="GET",route="/coffees/:id",status="200"} 1',
+    );
+    expect(metrics).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/coffees/:id",status="200"} 1',
+    );
+  });
+
+  it('should group requests that matched no route', () => {
+    serve();
+    expect(registry.render()).toContain(
+      'http_requests_total{method="GET",route="unmatched",status="200"} 1',
+    );
+  });
+});
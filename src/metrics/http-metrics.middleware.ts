@@ -0,0 +1,43 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { IncomingMessage, ServerResponse } from 'http';
+import { getRequestLog } from '../common/logging/request-log';
+import { Counter, Histogram } from './metric';
+import { MetricsRegistry } from './metrics.registry';
+
+// Labelled by route pattern, never by URL, so ids in paths cannot blow up the series count
+const UNMATCHED_ROUTE = 'unmatched';
+
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  private readonly requests: Counter;
+  private readonly duration: Histogram;
+
+  constructor(registry: MetricsRegistry) {
+    const labelNames = ['method', 'route', 'status'];
+    this.requests = registry.counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests served',
+      labelNames,
+    });
+    this.duration = registry.histogram({
+      name: 'http_request_duration_seconds',
+      help: 'Time to serve HTTP requests',
+      labelNames,
+    });
+  }
+
+  use(req: IncomingMessage, res: ServerResponse, next: () => void) {
+    const endTimer = this.duration.startTimer();
+    res.once('finish', () => {
+      // Filled in by IpRateLimitGuard, the first guard to see every matched route
+      const labels = {
+        method: req.method,
+        route: getRequestLog(req)?.route ?? UNMATCHED_ROUTE,
+        status: res.statusCode,
+      };
+      this.requests.inc(labels);
+      endTimer(labels);
+    });
+    next();
+  }
+}
@@ -0,0 +1,231 @@
+import { performance } from 'perf_hooks';
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type Labels = Record<string, string | number>;
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export interface GaugeOptions extends MetricOptions {
+  // Runs right before each scrape, for values that are cheaper to read than to track
+  collect?: (gauge: Gauge) => void;
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[];
+}
+
+// In seconds, suited to HTTP requests and database queries
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : `${value}`;
+
+export abstract class Metric<Series> {
+  abstract readonly type: MetricType;
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected readonly series = new Map<string, Series>();
+
+  constructor({ name, help, labelNames = [] }: MetricOptions) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  /**
+   * The metric in Prometheus text exposition format
+   */
+  render(): string {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return [
+      `# HELP ${this.name} ${help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join('\n');
+  }
+
+  protected abstract samples(): string[];
+  protected abstract createSeries(): Series;
+
+  protected seriesFor(labels: Labels = {}) {
+    const key = this.labelNames
+      .map((labelName) => `${labels[labelName] ?? ''}`)
+      .join('\u0000');
+    let series = this.series.get(key);
+    if (!series) {
+      series = this.createSeries();
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected sample(
+    name: string,
+    key: string,
+    value: number,
+    extraLabels: Labels = {},
+  ) {
+    const values = key.split('\u0000');
+    const pairs = [
+      ...this.labelNames.map((labelName, index) => [labelName, values[index]]),
+      ...Object.keys(extraLabels).map((labelName) => [
+        labelName,
+        `${extraLabels[labelName]}`,
+      ]),
+    ];
+    const labels = pairs.length
+      ? `{${pairs
+          .map(
+            ([labelName, value]) => `${labelName}="${escapeLabelValue(value)}"`,
+          )
+          .join(',')}}`
+      : '';
+    return `${name}${labels} ${formatValue(value)}`;
+  }
+}
+
+/**
+ * Only goes up, e.g. requests served
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  inc(labels?: Labels, value = 1) {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.seriesFor(labels).value += value;
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  protected samples() {
+    if (!this.series.size && !this.labelNames.length) {
+      return [this.sample(this.name, '', 0)];
+    }
+    return [...this.series].map(([key, { value }]) =>
+      this.sample(this.name, key, value),
+    );
+  }
+}
+
+/**
+ * Goes up and down, e.g. open connections
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+  private readonly collect?: (gauge: Gauge) => void;
+
+  constructor(options: GaugeOptions) {
+    super(options);
+    this.collect = options.collect;
+  }
+
+  set(labels: Labels, value: number) {
+    this.seriesFor(labels).value = value;
+  }
+
+  inc(labels?: Labels, value = 1) {
+    this.seriesFor(labels).value += value;
+  }
+
+  dec(labels?: Labels, value = 1) {
+    this.seriesFor(labels).value -= value;
+  }
+
+  render() {
+    this.collect?.(this);
+    return super.render();
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  protected samples() {
+    return [...this.series].map(([key, { value }]) =>
+      this.sample(this.name, key, value),
+    );
+  }
+}
+
+/**
+ * Counts observations into buckets, e.g. request durations
+ */
+export class Histogram extends Metric<{
+  counts: number[];
+  sum: number;
+  count: number;
+}> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor({ buckets = DEFAULT_BUCKETS, ...options }: HistogramOptions) {
+    super(options);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const series = this.seriesFor(labels);
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Returns a function that observes the seconds elapsed since the call
+   */
+  startTimer(labels: Labels = {}) {
+    const startedAt = performance.now();
+    return (endLabels: Labels = {}) => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      this.observe({ ...labels, ...endLabels }, elapsed);
+      return elapsed;
+    };
+  }
+
+  protected createSeries() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected samples() {
+    return [...this.series].reduce<string[]>(
+      (lines, [key, { counts, sum, count }]) => {
+        let cumulative = 0;
+        return [
+          ...lines,
+          ...this.buckets.map((bound, index) => {
+            cumulative += counts[index];
+            return this.sample(`${this.name}_bucket`, key, cumulative, {
+              le: formatValue(bound),
+            });
+          }),
+          this.sample(`${this.name}_bucket`, key, count, { le: '+Inf' }),
+          this.sample(`${this.name}_sum`, key, sum),
+          this.sample(`${this.name}_count`, key, count),
+        ];
+      },
+      [],
+    );
+  }
+}
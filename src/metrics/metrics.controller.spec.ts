@@ -0,0 +1,27 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsController } from './metrics.controller';
+import { MetricsRegistry } from './metrics.registry';
+
+describe('MetricsController', () => {
+  let controller: MetricsController;
+  let registry: MetricsRegistry;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MetricsController],
+      providers: [MetricsRegistry],
+    }).compile();
+
+    controller = module.get<MetricsController>(MetricsController);
+    registry = module.get<MetricsRegistry>(MetricsRegistry);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should render the registry', () => {
+    registry.counter({ name: 'jobs_total', help: 'Jobs run' }).inc();
+    expect(controller.scrape()).toContain('jobs_total 1');
+  });
+});
@@ -0,0 +1,20 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiProduces, ApiTags } from '@nestjs/swagger';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from './metrics.registry';
+
+@ApiTags('metrics')
+@RequireScopes('metrics:read')
+@RawResponse()
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly registry: MetricsRegistry) {}
+
+  @ApiProduces(PROMETHEUS_CONTENT_TYPE)
+  @Header('Content-Type', PROMETHEUS_CONTENT_TYPE)
+  @Get()
+  scrape() {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,17 @@
+import { Global, MiddlewareConsumer, Module } from '@nestjs/common';
+import { HttpMetricsMiddleware } from './http-metrics.middleware';
+import { MetricsController } from './metrics.controller';
+import { MetricsRegistry } from './metrics.registry';
+
+// Global so any module can register its own metrics without importing this one
+@Global()
+@Module({
+  controllers: [MetricsController],
+  providers: [MetricsRegistry],
+  exports: [MetricsRegistry],
+})
+export class MetricsModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(HttpMetricsMiddleware).forRoutes('*');
+  }
+}
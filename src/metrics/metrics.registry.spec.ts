@@ -0,0 +1,115 @@
+import { MetricsRegistry } from './metrics.registry';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  describe('counter', () => {
+    it('should render a zero before anything is counted', () => {
+      registry.counter({ name: 'jobs_total', help: 'Jobs run' });
+      expect(registry.render()).toBe(
+        '# HELP jobs_total Jobs run\n# TYPE jobs_total counter\njobs_total 0\n',
+      );
+    });
+    it('should count per label set', () => {
+      const counter = registry.counter({
+        name: 'jobs_total',
+        help: 'Jobs run',
+        labelNames: ['queue'],
+      });
+      counter.inc({ queue: 'mail' });
+      counter.inc({ queue: 'mail' }, 2);
+      counter.inc({ queue: 'sms' });
+      expect(registry.render()).toContain(
+        'jobs_total{queue="mail"} 3\njobs_total{queue="sms"} 1',
+      );
+    });
+    it('should refuse to decrease', () => {
+      const counter = registry.counter({ name: 'jobs_total', help: 'Jobs' });
+      expect(() => counter.inc({}, -1)).toThrow();
+    });
+    it('should escape label values', () => {
+      registry
+        .counter({ name: 'jobs_total', help: 'Jobs', labelNames: ['name'] })
+        .inc({ name: 'say "hi"\\\n' });
+      expect(registry.render()).toContain(
+        'jobs_total{name="say \\"hi\\"\\\\\\n"} 1',
+      );
+    });
+  });
+
+  describe('gauge', () => {
+    it('should collect its value on render', () => {
+      let connections = 3;
+      registry.gauge({
+        name: 'connections',
+        help: 'Open connections',
+        collect: (gauge) => gauge.set({}, connections),
+      });
+      expect(registry.render()).toContain('connections 3');
+      connections = 1;
+      expect(registry.render()).toContain('connections 1');
+    });
+  });
+
+  describe('histogram', () => {
+    it('should render cumulative buckets, sum and count', () => {
+      const histogram = registry.histogram({
+        name: 'duration_seconds',
+        help: 'Durations',
+        labelNames: ['route'],
+        buckets: [1, 0.1],
+      });
+      histogram.observe({ route: '/a' }, 0.05);
+      histogram.observe({ route: '/a' }, 0.5);
+      histogram.observe({ route: '/a' }, 5);
+      expect(registry.render()).toContain(
+        [
+          'duration_seconds_bucket{route="/a",le="0.1"} 1',
+          'duration_seconds_bucket{route="/a",le="1"} 2',
+          'duration_seconds_bucket{route="/a",le="+Inf"} 3',
+          'duration_seconds_sum{route="/a"} 5.55',
+          'duration_seconds_count{route="/a"} 3',
+        ].join('\n'),
+      );
+    });
+    it('should time with labels known at the end', () => {
+      const histogram = registry.histogram({
+        name: 'duration_seconds',
+        help: 'Durations',
+        labelNames: ['route', 'status'],
+      });
+      const endTimer = histogram.startTimer({ route: '/a' });
+      expect(endTimer({ status: 200 })).toBeGreaterThanOrEqual(0);
+      expect(registry.render()).toContain(
+        'duration_seconds_count{route="/a",status="200"} 1',
+      );
+    });
+  });
+
+  describe('registering', () => {
+    it('should return the metric already registered under a name', () => {
+      const counter = registry.counter({ name: 'jobs_total', help: 'Jobs' });
+      expect(registry.counter({ name: 'jobs_total', help: 'Jobs' })).toBe(
+        counter,
+      );
+    });
+    it('should refuse a name taken by another type', () => {
+      registry.counter({ name: 'jobs', help: 'Jobs' });
+      expect(() => registry.gauge({ name: 'jobs', help: 'Jobs' })).toThrow(
+        'Metric jobs is already registered as a counter',
+      );
+    });
+    it('should refuse invalid names', () => {
+      expect(() =>
+        registry.counter({ name: 'jobs-total', help: '' }),
+      ).toThrow();
+      expect(() =>
+        registry.histogram({ name: 'jobs', help: '', labelNames: ['le'] }),
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  GaugeOptions,
+  Histogram,
+  HistogramOptions,
+  Metric,
+  MetricOptions,
+} from './metric';
+
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+const VALID_METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const VALID_LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Holds every metric served on /metrics. Modules register theirs once, usually in a constructor,
+ * and registering the same name again returns the existing metric.
+ */
+@Injectable()
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options, Counter, () => new Counter(options));
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.register(options, Gauge, () => new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options, Histogram, () => new Histogram(options));
+  }
+
+  render(): string {
+    return `${[...this.metrics.values()]
+      .map((metric) => metric.render())
+      .join('\n')}\n`;
+  }
+
+  private register<T extends Metric<unknown>>(
+    { name, labelNames = [] }: MetricOptions,
+    type: new (...args: never[]) => T,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing;
+    }
+
+    if (!VALID_METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name ${name}`);
+    }
+    const invalidLabel = labelNames.find(
+      (labelName) => !VALID_LABEL_NAME.test(labelName) || labelName === 'le',
+    );
+    if (invalidLabel) {
+      throw new Error(`Invalid label name ${invalidLabel} on ${name}`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -7,10 +7,12 @@ import {
   Res,
 } from '@nestjs/common';
 import { ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
 
 @ApiTags('misc')
 @Controller('misc')
 export class MiscController {
+  @RawResponse()
   @Get('custom')
   findAllCustomResponse(@Res() response) {
     return response.status(200).send('This returned all coffee');
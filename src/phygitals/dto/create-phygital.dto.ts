@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+import { IsAddress } from '../../common/decorators/is-address.decorator';
+import { IsUint256 } from '../../common/decorators/is-uint256.decorator';
+import {
+  isAddress,
+  isUint256,
+  normalizeUint256,
+  toChecksumAddress,
+} from '../../common/utils/ethereum.util';
+
+export class CreatePhygitalDto {
+  @ApiProperty({ description: 'The chain the token lives on.' })
+  @IsInt()
+  readonly chainId: number;
+
+  @ApiProperty({ description: 'The EIP-55 address of the token contract.' })
+  @Transform(({ value }) =>
+    isAddress(value) ? toChecksumAddress(value) : value,
+  )
+  @IsAddress()
+  readonly contractAddress: string;
+
+  @ApiProperty({ description: 'The uint256 token id as a decimal string.' })
+  @Transform(({ value }) =>
+    isUint256(value) ? normalizeUint256(value) : value,
+  )
+  @IsUint256()
+  readonly tokenId: string;
+
+  @ApiProperty({ description: 'The name of a phygital.' })
+  @IsString()
+  readonly name: string;
+
+  @ApiPropertyOptional({ description: 'The description of a phygital.' })
+  @IsOptional()
+  @IsString()
+  readonly description?: string;
+}
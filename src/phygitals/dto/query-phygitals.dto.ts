@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional } from 'class-validator';
+import { SortOrder } from '../../common/constants/SortOrder';
+import { IsAddress } from '../../common/decorators/is-address.decorator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { isAddress, toChecksumAddress } from '../../common/utils/ethereum.util';
+
+export enum PhygitalSortField {
+  TokenId = 'tokenId',
+  Name = 'name',
+}
+
+export class QueryPhygitalsDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Only phygitals on this chain.' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  readonly chainId?: number;
+
+  @ApiPropertyOptional({ description: 'Only phygitals of this contract.' })
+  @IsOptional()
+  @Transform(({ value }) =>
+    isAddress(value) ? toChecksumAddress(value) : value,
+  )
+  @IsAddress()
+  readonly contractAddress?: string;
+
+  @ApiPropertyOptional({
+    enum: PhygitalSortField,
+    default: PhygitalSortField.TokenId,
+  })
+  @IsOptional()
+  @IsEnum(PhygitalSortField)
+  readonly sort?: PhygitalSortField;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.Asc })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(SortOrder)
+  readonly order?: SortOrder;
+}
@@ -0,0 +1,7 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreatePhygitalDto } from './create-phygital.dto';
+
+// The chainId/contractAddress/tokenId identify the phygital and come from the path
+export class UpdatePhygitalDto extends PartialType(
+  PickType(CreatePhygitalDto, ['name', 'description'] as const),
+) {}
@@ -0,0 +1,25 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+@Index(['chainId', 'contractAddress', 'tokenId'], { unique: true })
+@Entity()
+export class Phygital {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  chainId: number;
+
+  // Stored EIP-55 checksummed
+  @Column({ length: 42 })
+  contractAddress: string;
+
+  // uint256 does not fit a JS number, Postgres returns numerics as strings
+  @Column('numeric', { precision: 78, scale: 0 })
+  tokenId: string;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description: string;
+}
@@ -0,0 +1,33 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChainsService } from '../chains/chains.service';
+import { PhygitalsController } from './phygitals.controller';
+import { PhygitalsService } from './phygitals.service';
+
+describe('PhygitalsController', () => {
+  let controller: PhygitalsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PhygitalsController],
+      providers: [
+        {
+          provide: PhygitalsService,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+        { provide: ChainsService, useValue: { isSupported: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<PhygitalsController>(PhygitalsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Public } from '../common/decorators/public.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ParseAddressPipe } from '../common/pipes/parse-address.pipe';
+import { ParseChainIdPipe } from '../common/pipes/parse-chain-id.pipe';
+import { ParseTokenIdPipe } from '../common/pipes/parse-token-id.pipe';
+import { CreatePhygitalDto } from './dto/create-phygital.dto';
+import { QueryPhygitalsDto } from './dto/query-phygitals.dto';
+import { UpdatePhygitalDto } from './dto/update-phygital.dto';
+import { PhygitalsService } from './phygitals.service';
+
+@ApiTags('phygitals')
+@Controller('phygitals')
+export class PhygitalsController {
+  constructor(private readonly phygitalsService: PhygitalsService) {}
+
+  @Public()
+  @Get()
+  findAll(@Query() query: QueryPhygitalsDto) {
+    return this.phygitalsService.findAll(query);
+  }
+
+  @Public()
+  @Get(':chainId/:contractAddress/:tokenId')
+  findOne(
+    @Param('chainId', ParseChainIdPipe) chainId: number,
+    @Param('contractAddress', ParseAddressPipe) contractAddress: string,
+    @Param('tokenId', ParseTokenIdPipe) tokenId: string,
+  ) {
+    return this.phygitalsService.findOne(chainId, contractAddress, tokenId);
+  }
+
+  @RequireScopes('phygitals:write')
+  @Post()
+  create(@Body() body: CreatePhygitalDto) {
+    return this.phygitalsService.create(body);
+  }
+
+  @RequireScopes('phygitals:write')
+  @Patch(':chainId/:contractAddress/:tokenId')
+  update(
+    @Param('chainId', ParseChainIdPipe) chainId: number,
+    @Param('contractAddress', ParseAddressPipe) contractAddress: string,
+    @Param('tokenId', ParseTokenIdPipe) tokenId: string,
+    @Body() body: UpdatePhygitalDto,
+  ) {
+    return this.phygitalsService.update(
+      chainId,
+      contractAddress,
+      tokenId,
+      body,
+    );
+  }
+
+  @RequireScopes('phygitals:write')
+  @Delete(':chainId/:contractAddress/:tokenId')
+  delete(
+    @Param('chainId', ParseChainIdPipe) chainId: number,
+    @Param('contractAddress', ParseAddressPipe) contractAddress: string,
+    @Param('tokenId', ParseTokenIdPipe) tokenId: string,
+  ) {
+    return this.phygitalsService.remove(chainId, contractAddress, tokenId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChainsModule } from '../chains/chains.module';
+import { Phygital } from './entities/phygital.entity';
+import { PhygitalsController } from './phygitals.controller';
+import { PhygitalsService } from './phygitals.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Phygital]), ChainsModule],
+  controllers: [PhygitalsController],
+  providers: [PhygitalsService],
+})
+export class PhygitalsModule {}
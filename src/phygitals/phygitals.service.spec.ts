@@ -0,0 +1,150 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ChainsService } from '../chains/chains.service';
+import {
+  createMockRepositoryProvider,
+  MockRepository,
+} from '../common/test/mock-repository';
+import { CreatePhygitalDto } from './dto/create-phygital.dto';
+import { PhygitalSortField } from './dto/query-phygitals.dto';
+import { Phygital } from './entities/phygital.entity';
+import { PhygitalsService } from './phygitals.service';
+
+describe('PhygitalsService', () => {
+  let service: PhygitalsService;
+  let phygitalRepository: MockRepository;
+  let chainsService: { isSupported: jest.Mock };
+
+  const contractAddress = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+  const createPhygitalDto: CreatePhygitalDto = {
+    chainId: 1,
+    contractAddress,
+    tokenId: '42',
+    name: 'Hoodie',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PhygitalsService,
+        createMockRepositoryProvider(Phygital),
+        { provide: ChainsService, useValue: { isSupported: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PhygitalsService>(PhygitalsService);
+    phygitalRepository = module.get<MockRepository>(
+      getRepositoryToken(Phygital),
+    );
+    chainsService = module.get(ChainsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    describe('when called with chain and contract filters', () => {
+      it('should filter, sort and return the total', async () => {
+        phygitalRepository.findAndCount.mockResolvedValue([[{}], 1]);
+        expect(
+          await service.findAll({
+            chainId: 1,
+            contractAddress,
+            sort: PhygitalSortField.Name,
+            limit: 10,
+          }),
+        ).toEqual({ items: [{}], total: 1, limit: 10, offset: 0 });
+        expect(phygitalRepository.findAndCount).toBeCalledWith({
+          where: { chainId: 1, contractAddress },
+          order: { name: 'ASC', id: 'ASC' },
+          skip: 0,
+          take: 10,
+        });
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    describe('when no phygital exists for the identifiers', () => {
+      it('should throw', async () => {
+        phygitalRepository.findOne.mockResolvedValue(null);
+        await expect(service.findOne(1, contractAddress, '42')).rejects.toThrow(
+          new HttpException(
+            `Phygital 1/${contractAddress}/42 not found`,
+            HttpStatus.NOT_FOUND,
+          ),
+        );
+      });
+    });
+  });
+
+  describe('create', () => {
+    describe('when the phygital is new', () => {
+      it('should save it', async () => {
+        chainsService.isSupported.mockReturnValue(true);
+        phygitalRepository.findOne.mockResolvedValue(null);
+        phygitalRepository.create.mockImplementation((dto) => dto);
+        phygitalRepository.save.mockImplementation((phygital) => ({
+          id: 1,
+          ...phygital,
+        }));
+        expect(await service.create(createPhygitalDto)).toEqual({
+          id: 1,
+          ...createPhygitalDto,
+        });
+      });
+    });
+    describe('when the chain is not in the registry', () => {
+      it('should throw a bad request', async () => {
+        chainsService.isSupported.mockReturnValue(false);
+        await expect(service.create(createPhygitalDto)).rejects.toThrow(
+          new HttpException(
+            '1 is not a supported chainId',
+            HttpStatus.BAD_REQUEST,
+          ),
+        );
+      });
+    });
+    describe('when the phygital already exists', () => {
+      it('should throw a conflict', async () => {
+        chainsService.isSupported.mockReturnValue(true);
+        phygitalRepository.findOne.mockResolvedValue({ id: 1 });
+        await expect(service.create(createPhygitalDto)).rejects.toThrow(
+          new HttpException(
+            `Phygital 1/${contractAddress}/42 already exists`,
+            HttpStatus.CONFLICT,
+          ),
+        );
+        expect(phygitalRepository.save).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('update', () => {
+    describe('when the phygital exists', () => {
+      it('should merge the changes', async () => {
+        phygitalRepository.findOne.mockResolvedValue({
+          id: 1,
+          ...createPhygitalDto,
+        });
+        phygitalRepository.save.mockImplementation((phygital) => phygital);
+        expect(
+          await service.update(1, contractAddress, '42', { name: 'Cap' }),
+        ).toEqual({ id: 1, ...createPhygitalDto, name: 'Cap' });
+      });
+    });
+  });
+
+  describe('remove', () => {
+    describe('when the phygital exists', () => {
+      it('should remove it', async () => {
+        const phygital = { id: 1, ...createPhygitalDto };
+        phygitalRepository.findOne.mockResolvedValue(phygital);
+        await service.remove(1, contractAddress, '42');
+        expect(phygitalRepository.remove).toBeCalledWith(phygital);
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ChainsService } from '../chains/chains.service';
+import { SortOrder } from '../common/constants/SortOrder';
+import { PaginatedResponseDto } from '../common/dto/paginated-response.dto';
+import { CreatePhygitalDto } from './dto/create-phygital.dto';
+import {
+  PhygitalSortField,
+  QueryPhygitalsDto,
+} from './dto/query-phygitals.dto';
+import { UpdatePhygitalDto } from './dto/update-phygital.dto';
+import { Phygital } from './entities/phygital.entity';
+
+@Injectable()
+export class PhygitalsService {
+  constructor(
+    @InjectRepository(Phygital)
+    private readonly phygitalRepository: Repository<Phygital>,
+    private readonly chainsService: ChainsService,
+  ) {}
+
+  async findAll(
+    query: QueryPhygitalsDto,
+  ): Promise<PaginatedResponseDto<Phygital>> {
+    const {
+      chainId,
+      contractAddress,
+      sort = PhygitalSortField.TokenId,
+      order = SortOrder.Asc,
+      limit,
+      offset = 0,
+    } = query;
+
+    const [items, total] = await this.phygitalRepository.findAndCount({
+      where: {
+        ...(chainId !== undefined && { chainId }),
+        ...(contractAddress !== undefined && { contractAddress }),
+      },
+      order: { [sort]: order, id: order },
+      skip: offset,
+      take: limit,
+    });
+
+    return {
+      items,
+      total,
+      limit: limit ?? null,
+      offset,
+    };
+  }
+
+  async findOne(chainId: number, contractAddress: string, tokenId: string) {
+    const phygital = await this.phygitalRepository.findOne({
+      where: { chainId, contractAddress, tokenId },
+    });
+    if (!phygital) {
+      throw new HttpException(
+        `Phygital ${chainId}/${contractAddress}/${tokenId} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return phygital;
+  }
+
+  async create(createPhygitalDto: CreatePhygitalDto) {
+    const { chainId, contractAddress, tokenId } = createPhygitalDto;
+    if (!this.chainsService.isSupported(chainId)) {
+      throw new HttpException(
+        `${chainId} is not a supported chainId`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const existing = await this.phygitalRepository.findOne({
+      where: { chainId, contractAddress, tokenId },
+    });
+    if (existing) {
+      throw new HttpException(
+        `Phygital ${chainId}/${contractAddress}/${tokenId} already exists`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const phygital = this.phygitalRepository.create(createPhygitalDto);
+    return this.phygitalRepository.save(phygital);
+  }
+
+  async update(
+    chainId: number,
+    contractAddress: string,
+    tokenId: string,
+    updatePhygitalDto: UpdatePhygitalDto,
+  ) {
+    const phygital = await this.findOne(chainId, contractAddress, tokenId);
+    return this.phygitalRepository.save({
+      ...phygital,
+      ...updatePhygitalDto,
+    });
+  }
+
+  async remove(chainId: number, contractAddress: string, tokenId: string) {
+    const phygital = await this.findOne(chainId, contractAddress, tokenId);
+    return this.phygitalRepository.remove(phygital);
+  }
+}
@@ -0,0 +1,27 @@
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+
+describe('InMemoryRateLimitStore', () => {
+  let store: InMemoryRateLimitStore;
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    store = new InMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should count hits per key within a window', async () => {
+    await store.hit('a', 1000);
+    expect(await store.hit('a', 1000)).toEqual({ count: 2, resetAt: 1000 });
+    expect(await store.hit('b', 1000)).toEqual({ count: 1, resetAt: 1000 });
+  });
+
+  it('should start a new window once the previous one ends', async () => {
+    await store.hit('a', 1000);
+    now.mockReturnValue(1000);
+    expect(await store.hit('a', 1000)).toEqual({ count: 1, resetAt: 2000 });
+  });
+});
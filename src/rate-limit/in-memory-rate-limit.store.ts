@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+@Injectable()
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, RateLimitHit>();
+  private nextSweepAt = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now, windowMs);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { ...window };
+  }
+
+  // Drops expired windows at most once per window, so idle keys do not pile up
+  private sweep(now: number, windowMs: number) {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + windowMs;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
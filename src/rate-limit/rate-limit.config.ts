@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('rateLimit', () => ({
+  limit: parseInt(process.env.RATE_LIMIT_LIMIT, 10),
+  ipLimit: parseInt(process.env.RATE_LIMIT_IP_LIMIT, 10),
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS, 10),
+}));
@@ -0,0 +1,155 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+import { RateLimit } from './decorators/rate-limit.decorator';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { IpRateLimitGuard, RateLimitGuard } from './rate-limit.guard';
+
+class TestController {
+  list() {
+    return;
+  }
+
+  @RateLimit({ limit: 1, windowMs: 1000 })
+  create() {
+    return;
+  }
+}
+
+class V1Controller extends TestController {}
+class V2Controller extends TestController {}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let headers: Record<string, string | number>;
+  let now: jest.SpyInstance;
+  let registry: MetricsRegistry;
+
+  const contextFor = (
+    handler: string,
+    request: Record<string, any>,
+    controller = TestController,
+  ) =>
+    ({
+      getHandler: () => controller.prototype[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({
+          header: (name: string, value: string | number) =>
+            (headers[name] = value),
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    headers = {};
+    registry = new MetricsRegistry();
+    guard = new RateLimitGuard(
+      new Reflector(),
+      { limit: 2, ipLimit: 3, windowMs: 60000 },
+      new InMemoryRateLimitStore(),
+      registry,
+    );
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should apply the configured limit and set the headers', async () => {
+    expect(await guard.canActivate(contextFor('list', { ip: '1.1.1.1' }))).toBe(
+      true,
+    );
+    expect(headers).toEqual({
+      'RateLimit-Limit': 2,
+      'RateLimit-Remaining': 1,
+      'RateLimit-Reset': 60,
+    });
+  });
+
+  it('should reject with Retry-After once the limit is spent', async () => {
+    const context = contextFor('list', { ip: '1.1.1.1' });
+    await guard.canActivate(context);
+    await guard.canActivate(context);
+    now.mockReturnValue(15000);
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      new HttpException('Too many requests', HttpStatus.TOO_MANY_REQUESTS),
+    );
+    expect(headers['RateLimit-Remaining']).toBe(0);
+    expect(headers['Retry-After']).toBe(45);
+    expect(registry.render()).toContain(
+      'rate_limit_rejections_total{bucket="global"} 1',
+    );
+  });
+
+  it('should count API keys separately from their IP', async () => {
+    const apiKey = { id: 1, name: 'ci', owner: 'ops', scopes: [] };
+    await guard.canActivate(contextFor('list', { ip: '1.1.1.1' }));
+    await guard.canActivate(contextFor('list', { ip: '1.1.1.1' }));
+    expect(
+      await guard.canActivate(contextFor('list', { ip: '1.1.1.1', apiKey })),
+    ).toBe(true);
+  });
+
+  it('should apply and count route limits separately', async () => {
+    const request = { ip: '1.1.1.1' };
+    await guard.canActivate(contextFor('list', request));
+    await guard.canActivate(contextFor('create', request));
+    expect(headers['RateLimit-Limit']).toBe(1);
+    await expect(
+      guard.canActivate(contextFor('create', request)),
+    ).rejects.toThrow(HttpException);
+  });
+
+  it('should count a route once across the controllers inheriting it', async () => {
+    const request = { ip: '1.1.1.1' };
+    await guard.canActivate(contextFor('create', request, V1Controller));
+    await expect(
+      guard.canActivate(contextFor('create', request, V2Controller)),
+    ).rejects.toThrow(HttpException);
+    expect(registry.render()).toContain(
+      'rate_limit_rejections_total{bucket="TestController.create"} 1',
+    );
+  });
+});
+
+describe('IpRateLimitGuard', () => {
+  let guard: IpRateLimitGuard;
+  let headers: Record<string, string | number>;
+
+  const contextFor = (request: Record<string, any>) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({
+          header: (name: string, value: string | number) =>
+            (headers[name] = value),
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    headers = {};
+    guard = new IpRateLimitGuard(
+      { limit: 1, ipLimit: 2, windowMs: 60000 },
+      new InMemoryRateLimitStore(),
+      new MetricsRegistry(),
+    );
+  });
+
+  it('should limit every request per IP, before any key is checked', async () => {
+    const request = { ip: '1.1.1.1', headers: { authorization: 'bad' } };
+    await guard.canActivate(contextFor(request));
+    expect(await guard.canActivate(contextFor(request))).toBe(true);
+    expect(headers['RateLimit-Limit']).toBe(2);
+    await expect(guard.canActivate(contextFor(request))).rejects.toThrow(
+      new HttpException('Too many requests', HttpStatus.TOO_MANY_REQUESTS),
+    );
+    expect(
+      await guard.canActivate(contextFor({ ip: '2.2.2.2', headers: {} })),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyIdentity } from '../api-keys/interfaces/api-key-identity.interface';
+import {
+  RateLimitOptions,
+  RATE_LIMIT_KEY,
+} from './decorators/rate-limit.decorator';
+import { HeaderWriter } from '../common/interfaces/header-writer.interface';
+import { getRequestLog, getRoutePattern } from '../common/logging/request-log';
+import { Counter } from '../metrics/metric';
+import { MetricsRegistry } from '../metrics/metrics.registry';
+import rateLimitConfig from './rate-limit.config';
+import { RateLimitStore, RATE_LIMIT_STORE } from './rate-limit.store';
+
+interface RateLimitHitOptions {
+  bucket: string;
+  caller: string;
+  limit: number;
+  windowMs: number;
+}
+
+const rejectionsCounter = (registry: MetricsRegistry) =>
+  registry.counter({
+    name: 'rate_limit_rejections_total',
+    help: 'Requests answered with 429, by rate limit bucket',
+    labelNames: ['bucket'],
+  });
+
+// Named after the class that declares the handler, so controllers inheriting a route share its limit
+const routeBucket = (context: ExecutionContext) => {
+  const handler = context.getHandler();
+  let prototype = context.getClass().prototype;
+  while (
+    Object.getPrototypeOf(prototype) &&
+    Object.getOwnPropertyDescriptor(prototype, handler.name)?.value !== handler
+  ) {
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  return `${prototype.constructor.name}.${handler.name}`;
+};
+
+// Counts the hit, sets the RateLimit headers and throws 429 once the limit is spent
+const enforceRateLimit = async (
+  store: RateLimitStore,
+  response: HeaderWriter,
+  { bucket, caller, limit, windowMs }: RateLimitHitOptions,
+  rejections: Counter,
+) => {
+  const { count, resetAt } = await store.hit(`${bucket}:${caller}`, windowMs);
+  const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+  response.header('RateLimit-Limit', limit);
+  response.header('RateLimit-Remaining', Math.max(0, limit - count));
+  response.header('RateLimit-Reset', resetSeconds);
+
+  if (count > limit) {
+    response.header('Retry-After', resetSeconds);
+    rejections.inc({ bucket });
+    throw new HttpException('Too many requests', HttpStatus.TOO_MANY_REQUESTS);
+  }
+};
+
+/**
+ * Runs before ApiKeyGuard, so missing and invalid keys are limited per IP before
+ * they cost a lookup. Its limit leaves room for every key holder behind one IP,
+ * whose own limits RateLimitGuard applies once they are authenticated.
+ */
+@Injectable()
+export class IpRateLimitGuard implements CanActivate {
+  private readonly rejections: Counter;
+
+  constructor(
+    @Inject(rateLimitConfig.KEY)
+    private readonly config: ConfigType<typeof rateLimitConfig>,
+    @Inject(RATE_LIMIT_STORE)
+    private readonly store: RateLimitStore,
+    registry: MetricsRegistry,
+  ) {
+    this.rejections = rejectionsCounter(registry);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<{ ip: string }>();
+    // The first guard to see every matched route, so it fills in what the access log cannot know
+    const requestLog = getRequestLog(request);
+    if (requestLog) {
+      requestLog.route = getRoutePattern(request);
+    }
+
+    await enforceRateLimit(
+      this.store,
+      http.getResponse<HeaderWriter>(),
+      {
+        bucket: 'ip',
+        caller: request.ip,
+        limit: this.config.ipLimit,
+        windowMs: this.config.windowMs,
+      },
+      this.rejections,
+    );
+    return true;
+  }
+}
+
+/**
+ * Runs after ApiKeyGuard so authenticated callers are limited per key rather than per IP
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly rejections: Counter;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(rateLimitConfig.KEY)
+    private readonly config: ConfigType<typeof rateLimitConfig>,
+    @Inject(RATE_LIMIT_STORE)
+    private readonly store: RateLimitStore,
+    registry: MetricsRegistry,
+  ) {
+    this.rejections = rejectionsCounter(registry);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const routeOptions = this.reflector.getAllAndOverride<RateLimitOptions>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const { limit, windowMs } = routeOptions ?? this.config;
+    const bucket = routeOptions ? routeBucket(context) : 'global';
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<{ ip: string; apiKey?: ApiKeyIdentity }>();
+    const caller = request.apiKey
+      ? `key:${request.apiKey.id ?? request.apiKey.name}`
+      : `ip:${request.ip}`;
+    await enforceRateLimit(
+      this.store,
+      http.getResponse<HeaderWriter>(),
+      { bucket, caller, limit, windowMs },
+      this.rejections,
+    );
+    return true;
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import rateLimitConfig from './rate-limit.config';
+import { IpRateLimitGuard, RateLimitGuard } from './rate-limit.guard';
+import { RATE_LIMIT_STORE } from './rate-limit.store';
+
+@Module({
+  imports: [ConfigModule.forFeature(rateLimitConfig)],
+  providers: [
+    IpRateLimitGuard,
+    RateLimitGuard,
+    { provide: RATE_LIMIT_STORE, useClass: InMemoryRateLimitStore },
+  ],
+  exports: [IpRateLimitGuard, RateLimitGuard],
+})
+export class RateLimitModule {}
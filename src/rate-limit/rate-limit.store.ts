@@ -0,0 +1,14 @@
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+export interface RateLimitHit {
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+/**
+ * Counts hits per key in fixed windows. Provide another implementation under
+ * RATE_LIMIT_STORE to share counters between instances.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
@@ -22,7 +22,7 @@ describe('AppController (e2e)', () => {
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
-      .set('Authorization', configService.get('apiKey'))
+      .set('Authorization', configService.get('app.apiKey'))
       .expect(200)
       .expect('Hello World!');
   });
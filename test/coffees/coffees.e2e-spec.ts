@@ -3,13 +3,16 @@ import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { CoffeesModule } from '../../src/coffees/coffees.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { HttpExceptionFilter } from '../../src/common/filters/http-exception.filter';
+import { ConfigModule } from '@nestjs/config';
+import appConfig from '../../src/config/app.config';
+import { MetricsModule } from '../../src/metrics/metrics.module';
 import { WrapResponseInterceptor } from '../../src/common/interceptors/wrap-response.interceptor';
 import { TimeoutInterceptor } from '../../src/common/interceptors/timeout.interceptor';
 import { Coffee } from '../../src/coffees/entities/coffee.entity';
 import { CreateCoffeeDto } from '../../src/coffees/dto/create-coffee.dto';
 import { Flavour } from '../../src/coffees/entities/flavour.entity';
 import { CoffeesController } from '../../src/coffees/coffees.controller';
+import { Event } from '../../src/events/entities/event.entity';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication;
@@ -22,6 +25,9 @@ describe('AppController (e2e)', () => {
   beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [
+        // Global in AppModule, HttpCacheInterceptor reads the versioning from it
+        ConfigModule.forRoot({ isGlobal: true, load: [appConfig] }),
+        MetricsModule, // Global in AppModule, CoffeesService counts recommendations
         CoffeesModule,
         TypeOrmModule.forRoot({
           type: 'postgres',
@@ -30,7 +36,7 @@ describe('AppController (e2e)', () => {
           username: 'postgres',
           password: 'password',
           database: 'postgres',
-          entities: [Flavour, Coffee],
+          entities: [Flavour, Coffee, Event],
           synchronize: true,
         }),
       ],
@@ -62,7 +68,8 @@ describe('AppController (e2e)', () => {
       .expect(200)
       .then(({ body }) => {
         expect(body).toBeDefined();
-        expect(body.length).toBeDefined();
+        expect(body.items.length).toBeDefined();
+        expect(body.total).toBeGreaterThanOrEqual(body.items.length);
       });
   });
 
@@ -1,14 +1,16 @@
-import { Coffee } from './src/coffees/entities/coffee.entity';
-import { Flavour } from './src/coffees/entities/flavour.entity';
+import { config } from 'dotenv';
 import { DataSource } from 'typeorm';
+import { envFilePaths, validateEnv } from './src/config/env.validation';
+import databaseConfig from './src/database/database.config';
+import { createDataSourceOptions } from './src/database/database.options';
 
-export default new DataSource({
-  type: 'postgres',
-  host: 'localhost',
-  port: 5431,
-  username: 'postgres',
-  password: 'password',
-  database: 'postgres',
-  entities: [Coffee, Flavour],
-  migrations: [],
-});
+// The env files ConfigModule reads, none of them overriding what is already set
+envFilePaths().forEach((path) => config({ path }));
+
+// Same validation and defaults as the app, without overriding what is already set
+const env = validateEnv(process.env);
+Object.keys(env)
+  .filter((key) => process.env[key] === undefined)
+  .forEach((key) => (process.env[key] = String(env[key])));
+
+export default new DataSource(createDataSourceOptions(databaseConfig()));